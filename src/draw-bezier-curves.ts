@@ -1,59 +1,142 @@
-import Graph from "./graph.js";
+import { Edge } from "graphlib";
+import { LayoutGraph } from "./graph.js";
 
 /**
  * @see https://javascript.info/bezier-curve
  *
+ * Loops are drawn as a curve beside their node instead (see {@link drawLoop}).
+ *
  * @param graph A graphlib graph object.
  */
-function drawBezierCurves(graph: Graph) {
+function drawBezierCurves(graph: LayoutGraph) {
   graph.edges().forEach((edge) => {
-    const { v, w } = edge;
-    const numberOfVEdges = graph.nodeEdges(v)!.length;
+    if (edge.v === edge.w) {
+      drawLoop(graph, edge);
+      return;
+    }
+
+    drawBezierCurve(graph, edge);
+  });
+}
+
+/**
+ * Draws an edge that is not a loop as a quadratic Bézier curve between the
+ * centres of its nodes, given by its start, middle and end points.
+ *
+ * @param graph A graphlib graph object.
+ * @param edge An edge.
+ */
+export function drawBezierCurve(graph: LayoutGraph, edge: Edge) {
+  const points = [0, 0.5, 1].map((t) => getCurvePoint(graph, edge, t));
+  const edgeData = graph.edge(edge);
 
-    const controlPoint0 = {
-      x: graph.node(v).x,
-      y: graph.node(v).y,
+  if (edgeData) {
+    graph.edge(edge).points = points;
+  } else {
+    graph.setEdge(edge, { points });
+  }
+}
+
+/**
+ * Gets a point on the curve of an edge that is not a loop, as drawn by
+ * {@link drawBezierCurve}.
+ *
+ * @param graph A graphlib graph object.
+ * @param edge An edge.
+ * @param t The position along the curve, from `0` at the source to `1` at the
+ * target.
+ * @returns The point at `t`.
+ */
+export function getCurvePoint(graph: LayoutGraph, edge: Edge, t: number) {
+  const { v, w } = edge;
+  const numberOfVEdges = graph.nodeEdges(v)!.length;
+
+  const controlPoint0 = {
+    x: graph.node(v).x,
+    y: graph.node(v).y,
+  };
+  const controlPoint1 = {
+    x: numberOfVEdges > 1 ? graph.node(w).x : graph.node(v).x,
+    y: numberOfVEdges > 1 ? graph.node(v).y : graph.node(w).y,
+  };
+  const controlPoint2 = {
+    x: graph.node(w).x,
+    y: graph.node(w).y,
+  };
+
+  function line01(t: number) {
+    return {
+      x: (1 - t) * controlPoint0.x + t * controlPoint1.x,
+      y: (1 - t) * controlPoint0.y + t * controlPoint1.y,
     };
-    const controlPoint1 = {
-      x: numberOfVEdges > 1 ? graph.node(w).x : graph.node(v).x,
-      y: numberOfVEdges > 1 ? graph.node(v).y : graph.node(w).y,
+  }
+  function line12(t: number) {
+    return {
+      x: (1 - t) * controlPoint1.x + t * controlPoint2.x,
+      y: (1 - t) * controlPoint1.y + t * controlPoint2.y,
     };
-    const controlPoint2 = {
-      x: graph.node(w).x,
-      y: graph.node(w).y,
+  }
+  function connectingLine(t: number) {
+    const point01 = line01(t);
+    const point12 = line12(t);
+
+    return {
+      x: (1 - t) * point01.x + t * point12.x,
+      y: (1 - t) * point01.y + t * point12.y,
     };
+  }
 
-    function line01(t: number) {
-      return {
-        x: (1 - t) * controlPoint0.x + t * controlPoint1.x,
-        y: (1 - t) * controlPoint0.y + t * controlPoint1.y,
-      };
-    }
-    function line12(t: number) {
-      return {
-        x: (1 - t) * controlPoint1.x + t * controlPoint2.x,
-        y: (1 - t) * controlPoint1.y + t * controlPoint2.y,
-      };
-    }
-    function connectingLine(t: number) {
-      const point01 = line01(t);
-      const point12 = line12(t);
-
-      return {
-        x: (1 - t) * point01.x + t * point12.x,
-        y: (1 - t) * point01.y + t * point12.y,
-      };
-    }
+  return connectingLine(t);
+}
 
-    const points = [controlPoint0, connectingLine(0.5), controlPoint2];
-    const edgeData = graph.edge(edge);
+/**
+ * Gets the width of a loop and its label, i.e., how far they reach to the
+ * right of their node when drawn by {@link drawLoop}.
+ *
+ * @param graph A graphlib graph object.
+ * @param edge A loop.
+ * @returns The width of the loop and its label.
+ */
+export function getLoopWidth(graph: LayoutGraph, edge: Edge) {
+  const { width, height, labeloffset } = graph.edge(edge);
+  const curveWidth = graph.graph().nodesep / 2;
 
-    if (edgeData) {
-      graph.edge(edge).points = points;
-    } else {
-      graph.setEdge(edge, { points });
-    }
-  });
+  return width > 0 || height > 0
+    ? curveWidth + labeloffset + width
+    : curveWidth;
+}
+
+/**
+ * Draws a loop as a curve that leaves its node on the right side, above the
+ * centre, and re-enters it below the centre. The curve reaches half the node
+ * separation to the right. A label of the loop is placed to the right of the
+ * curve. Coordinate assignment keeps the space taken up by both free (see
+ * {@link getLoopWidth}).
+ *
+ * @param graph A graphlib graph object.
+ * @param edge A loop.
+ */
+function drawLoop(graph: LayoutGraph, edge: Edge) {
+  const { x, y, width, height } = graph.node(edge.v);
+  const right = x + width / 2;
+  const loopWidth = graph.graph().nodesep / 2;
+  const points = [
+    { x: right, y: y - height / 4 },
+    { x: right + loopWidth, y },
+    { x: right, y: y + height / 4 },
+  ];
+  const edgeData = graph.edge(edge);
+
+  if (!edgeData) {
+    graph.setEdge(edge, { points });
+    return;
+  }
+
+  edgeData.points = points;
+  if (edgeData.width > 0 || edgeData.height > 0) {
+    edgeData.x = right + loopWidth + edgeData.labeloffset + edgeData.width / 2;
+    edgeData.y = y;
+  }
 }
 
 export default drawBezierCurves;
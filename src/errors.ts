@@ -0,0 +1,164 @@
+import { Edge } from "graphlib";
+import type { GraphDiagnostic, GraphDiagnosticCode } from "./validate-graph.js";
+import type { LayoutOptions, NodeId } from "./utils.js";
+
+/**
+ * The nodes and edges involved in a layout failure.
+ */
+export interface InvolvedElements {
+  nodes?: NodeId[];
+  edges?: Edge[];
+}
+
+/**
+ * Diagnostic codes of structures that are well-formed graphs, but that the
+ * layout algorithm does not support.
+ */
+const UNSUPPORTED_STRUCTURES: GraphDiagnosticCode[] = [
+  "undirected-graph",
+  "multigraph",
+  "invalid-parent",
+  "multiple-conjunct-edges",
+  "multiple-warrant-sources",
+  "labelled-warrant-edge",
+];
+
+/**
+ * Base class of all errors thrown when a graph cannot be laid out. Carries the
+ * IDs of the nodes and edges involved, so that they can be highlighted.
+ */
+export class LayoutError extends Error {
+  /** The IDs of the nodes involved. */
+  readonly nodes: NodeId[];
+  /** The edges involved. */
+  readonly edges: Edge[];
+
+  /**
+   * @param message A description of the failure.
+   * @param involvedElements The nodes and edges involved.
+   */
+  constructor(message: string, { nodes = [], edges = [] }: InvolvedElements) {
+    super(message);
+    this.name = new.target.name;
+    this.nodes = nodes;
+    this.edges = edges;
+  }
+}
+
+/**
+ * Thrown when a graph is malformed, e.g., when a warrant targets an edge that
+ * does not exist or a node has a non-numeric size. Lists all problems found by
+ * {@link validateGraph}.
+ */
+export class InvalidGraphError extends LayoutError {
+  /** The problems found in the graph. */
+  readonly diagnostics: GraphDiagnostic[];
+
+  /**
+   * @param diagnostics The problems found in the graph.
+   */
+  constructor(diagnostics: GraphDiagnostic[]) {
+    super(
+      describeDiagnostics("Graph is malformed", diagnostics),
+      getInvolvedElements(diagnostics)
+    );
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * Thrown when a graph contains structures that the layout algorithm does not
+ * support, e.g., when it is undirected or a multigraph, or has parents that are
+ * not conjunct nodes.
+ */
+export class UnsupportedStructureError extends LayoutError {
+  /** The unsupported structures found in the graph. */
+  readonly diagnostics: GraphDiagnostic[];
+
+  /**
+   * @param diagnostics The unsupported structures found in the graph.
+   */
+  constructor(diagnostics: GraphDiagnostic[]) {
+    super(
+      describeDiagnostics("Graph contains unsupported structures", diagnostics),
+      getInvolvedElements(diagnostics)
+    );
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * Thrown when a step of the layout algorithm fails to reach a valid state.
+ */
+export class LayoutConvergenceError extends LayoutError {}
+
+/**
+ * Thrown when the rank constraints of a graph, e.g., nodes pinned to a rank or
+ * placed on the same rank, contradict each other or the edges of the graph.
+ */
+export class RankConstraintError extends LayoutError {}
+
+/**
+ * Thrown when a layout option has an invalid value.
+ */
+export class InvalidOptionError extends LayoutError {
+  /** The name of the invalid option. */
+  readonly option: keyof LayoutOptions;
+
+  /**
+   * @param option The name of the invalid option.
+   * @param message A description of the valid values.
+   */
+  constructor(option: keyof LayoutOptions, message: string) {
+    super(message, {});
+    this.option = option;
+  }
+}
+
+/**
+ * Creates the error to throw for the problems found by {@link validateGraph}.
+ * Malformed graphs take precedence over unsupported structures.
+ *
+ * @param diagnostics The problems found in a graph. Must not be empty.
+ * @returns An error listing all problems.
+ */
+export function createGraphError(diagnostics: GraphDiagnostic[]) {
+  const isUnsupported = diagnostics.every(({ code }) =>
+    UNSUPPORTED_STRUCTURES.includes(code)
+  );
+
+  return isUnsupported
+    ? new UnsupportedStructureError(diagnostics)
+    : new InvalidGraphError(diagnostics);
+}
+
+/**
+ * Describes a list of diagnostics in an error message.
+ *
+ * @param summary The first line of the message.
+ * @param diagnostics The diagnostics.
+ * @returns The error message.
+ */
+function describeDiagnostics(summary: string, diagnostics: GraphDiagnostic[]) {
+  const problems = diagnostics.map(({ message }) => `\n  - ${message}`);
+
+  return `${summary}:${problems.join("")}`;
+}
+
+/**
+ * Collects the nodes and edges a list of diagnostics concerns.
+ *
+ * @param diagnostics The diagnostics.
+ * @returns The nodes and edges involved.
+ */
+function getInvolvedElements(diagnostics: GraphDiagnostic[]) {
+  const nodes = new Set<NodeId>();
+  const edges: Edge[] = [];
+
+  diagnostics.forEach(({ node, edge }) => {
+    if (node !== undefined) nodes.add(node);
+    if (edge !== undefined) edges.push(edge);
+  });
+
+  return { nodes: [...nodes], edges };
+}
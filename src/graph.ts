@@ -1,11 +1,186 @@
 import { Edge, Graph as graphlibGraph, GraphOptions } from "graphlib";
-import { NodeId } from "./utils.js";
+import { NodeId, SubnodeData, uniqueNodeId } from "./utils.js";
+
+/**
+ * Whether an edge supports or attacks its target.
+ */
+export type EdgePolarity = "support" | "attack";
+
+/**
+ * The rank a node is pinned to: the first (`"min"`) or last (`"max"`) rank, or
+ * a rank counted from the first one, which is rank `0`.
+ */
+export type RankPin = "min" | "max" | number;
+
+/**
+ * A point in the coordinate system of a layout.
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Layout information assigned to node labels by {@link layOutGraph}.
+ */
+export interface NodeLayout extends Point {
+  width: number;
+  height: number;
+}
+
+/**
+ * Layout information assigned to edge labels by {@link layOutGraph}. The
+ * position is only assigned to edges with a label of their own.
+ */
+export interface EdgeLayout {
+  points: Point[];
+  x?: number;
+  y?: number;
+  /** Set for edges that were reversed to remove cycles. */
+  reversed?: true;
+  /** Set for loops, which are drawn beside their node. */
+  isLoop?: true;
+}
+
+/**
+ * Layout information assigned to the graph label by {@link layOutGraph}.
+ */
+export interface GraphLayout {
+  width: number;
+  height: number;
+}
+
+/**
+ * Layout information of an edge of the input graph.
+ */
+export interface EdgeLayoutResult extends Edge, EdgeLayout {}
+
+/**
+ * Layout information of a warrant or rebuttal edge, which goes from the
+ * `source` node to the `target` edge.
+ */
+export interface WarrantLayout extends EdgeLayout {
+  source: NodeId;
+  target: Edge;
+}
+
+/**
+ * Layout information of a conjunct node, which groups the `nodes` that jointly
+ * infer the `target` node.
+ */
+export interface ConjunctLayout extends NodeLayout {
+  id: NodeId;
+  nodes: NodeId[];
+  target: NodeId;
+}
+
+/**
+ * A layout produced by {@link computeLayout}. Conjunct nodes, and warrant and
+ * rebuttal edges are listed separately from the other nodes and edges.
+ */
+export interface LayoutResult {
+  nodes: Map<NodeId, NodeLayout>;
+  edges: EdgeLayoutResult[];
+  width: number;
+  height: number;
+  warrants: WarrantLayout[];
+  rebuttals: WarrantLayout[];
+  conjuncts: ConjunctLayout[];
+}
+
+/**
+ * A graph whose labels have been given layout information by
+ * {@link layOutGraph}.
+ */
+export type LaidOutGraph<NodeLabel, EdgeLabel, GraphLabel> = Graph<
+  NodeLabel & NodeLayout,
+  EdgeLabel & EdgeLayout,
+  GraphLabel & GraphLayout
+>;
+
+/**
+ * The label methods of graphlib's graph, typed loosely so that they can be
+ * overridden with narrower label types, and `setParent`, which returns the
+ * narrower graph type when overridden.
+ */
+interface LabelMethods {
+  setGraph(label: any): any;
+  graph(): any;
+  setDefaultNodeLabel(label: any): any;
+  setNode(node: NodeId, label?: any): any;
+  node(node: NodeId): any;
+  setDefaultEdgeLabel(label: any): any;
+  setEdge(...args: any[]): any;
+  edge(...args: any[]): any;
+  removeEdge(...args: any[]): any;
+  setParent(node: NodeId, parent?: NodeId): any;
+}
+
+/**
+ * Graphlib's graph class with loosely typed label methods, which {@link Graph}
+ * extends and which is used for the graphs built during layout.
+ */
+export const GraphBase = graphlibGraph as new (options?: GraphOptions) => Omit<
+  graphlibGraph,
+  keyof LabelMethods
+> &
+  LabelMethods;
+
+/**
+ * A graph built during layout. Unlike {@link Graph}, it has no methods for
+ * warrant edges and conjunct nodes, and its `removeEdge` only removes the edge.
+ */
+export type LayoutGraph = InstanceType<typeof GraphBase>;
+
+/**
+ * The label of a node in a layout graph. Other attributes set by the layout
+ * stages are kept as they are.
+ */
+export interface LayoutNodeLabel extends Partial<NodeLayout> {
+  isConjunctNode?: boolean;
+  isWarrantSink?: boolean;
+  /** Set for the dummy node that holds the place of an edge label. */
+  isLabelDummyNode?: boolean;
+  /** The edge targeted by a warrant sink. */
+  targetEdge?: Edge;
+  /** The labels of the nodes merged into a meta node. */
+  subnodeData?: SubnodeData;
+  /** Rank constraints, see {@link Graph.setSameRank}. */
+  sameRankAs?: NodeId[];
+  /** Rank constraints, see {@link Graph.pinRank}. */
+  pinnedRank?: RankPin;
+  /** Rank constraints, see {@link Graph.setMinRankGap}. */
+  minRankGaps?: { node: NodeId; gap: number }[];
+  [attribute: string]: unknown;
+}
+
+/**
+ * The label of an edge in a layout graph, whose size is that of its label.
+ * Other attributes set by the layout stages are kept as they are.
+ */
+export interface LayoutEdgeLabel {
+  width: number;
+  height: number;
+  /** Where the label is placed: left (`"l"`), right (`"r"`) or centre (`"c"`). */
+  labelpos: string;
+  labeloffset: number;
+  minlen: number;
+  weight: number;
+  [attribute: string]: unknown;
+}
 
 /**
  * Provides a graph data structure that extents graphlib's and adds support for
- * warrant edges and conjunct nodes.
+ * warrant edges and conjunct nodes. The types of node, edge and graph labels
+ * may be given as type arguments. Conjunct nodes and the sink nodes of warrants
+ * get generated IDs, which are moved if a node of the same ID is set later.
+ * Edges and parents set with their IDs still refer to them.
  */
-export default class Graph extends graphlibGraph {
+export default class Graph<
+  NodeLabel = any,
+  EdgeLabel = any,
+  GraphLabel = any
+> extends GraphBase {
   /**
    * @param options Booleans for setting the graph as directed (default true),
    * multigraph (default false) and compound (default true).
@@ -14,41 +189,142 @@ export default class Graph extends graphlibGraph {
     super({ compound: true, ...options });
   }
 
-  // Overrides erroneous return type.
-  override graph(): any {
-    return super.graph();
+  /**
+   * Whether nodes are only set implicitly, e.g., by graphlib when setting an
+   * edge, so that the IDs of internal nodes must be kept.
+   */
+  private isKeepingNodeIds = false;
+
+  // The following overrides narrow graphlib's label types. Arguments are
+  // passed on as given, as graphlib checks whether a label was specified.
+
+  override setGraph(label: GraphLabel) {
+    super.setGraph(label);
+    return this;
+  }
+
+  override graph(): GraphLabel {
+    return super.graph() as GraphLabel;
+  }
+
+  override setDefaultNodeLabel(
+    label: NodeLabel | ((node: NodeId) => NodeLabel)
+  ) {
+    super.setDefaultNodeLabel(label);
+    return this;
+  }
+
+  override setNode(node: NodeId, ...label: [label?: NodeLabel]) {
+    const { isConjunctNode, isWarrantSink } = (label[0] || {}) as {
+      isConjunctNode?: boolean;
+      isWarrantSink?: boolean;
+    };
+
+    if (!isConjunctNode && !isWarrantSink) this.releaseNodeId(node);
+    super.setNode(node, ...label);
+    return this;
+  }
+
+  override node(node: NodeId): NodeLabel {
+    return super.node(node);
+  }
+
+  override setDefaultEdgeLabel(
+    label: EdgeLabel | ((v: NodeId, w: NodeId, name?: string) => EdgeLabel)
+  ) {
+    super.setDefaultEdgeLabel(label);
+    return this;
+  }
+
+  override setEdge(
+    v: NodeId,
+    w: NodeId,
+    label?: EdgeLabel,
+    name?: string
+  ): this;
+  override setEdge(edge: Edge, label?: EdgeLabel): this;
+  override setEdge(...args: [any, ...any[]]) {
+    return this.keepNodeIds(() => super.setEdge(...args));
+  }
+
+  override setParent(node: NodeId, parent?: NodeId) {
+    return this.keepNodeIds(() => super.setParent(node, parent));
+  }
+
+  override edge(v: NodeId, w: NodeId, name?: string): EdgeLabel;
+  override edge(edge: Edge): EdgeLabel;
+  override edge(v: NodeId | Edge, w?: NodeId, name?: string): EdgeLabel {
+    if (typeof v === "object") return super.edge(v);
+    return super.edge(v, w, name);
+  }
+
+  /**
+   * Sets whether an edge supports or attacks its target by setting the
+   * `polarity` property of its label. Creates the edge if it does not exist.
+   *
+   * @param edge The edge.
+   * @param polarity The polarity of the edge.
+   * @returns The graph, allowing this to be chained with other functions.
+   */
+  setPolarity(edge: Edge, polarity: EdgePolarity) {
+    if (!this.hasEdge(edge)) super.setEdge(edge);
+
+    const edgeLabel = super.edge(edge);
+
+    if (edgeLabel) edgeLabel.polarity = polarity;
+    else super.setEdge(edge, { polarity });
+
+    return this;
+  }
+
+  /**
+   * Gets whether an edge supports or attacks its target. Edges support their
+   * targets unless stated otherwise.
+   *
+   * @param edge The edge.
+   * @returns The polarity of the edge.
+   */
+  polarity(edge: Edge): EdgePolarity {
+    return super.edge(edge)?.polarity ?? "support";
   }
 
   /**
    * Creates a new conjunct node based on an existing simple connection or
-   * appends `node` to an existing conjunct node.
+   * appends `node` to an existing conjunct node. Warrants and rebuttals of the
+   * simple connection are moved to the edge going from the conjunct node.
    *
    * @param node The node to add to the conjunct node.
    * @param edge The edge going from the conjunct node.
    * @returns The graph, allowing this to be chained with other functions.
    */
   setConjunctNode(node: NodeId, edge: Edge) {
-    let vParentNode = this.parent(edge.v);
+    return this.keepNodeIds(() => {
+      let vParentNode = this.parent(edge.v);
 
-    if (!vParentNode) {
-      vParentNode = `-> ${edge.w}`;
+      if (!vParentNode) {
+        vParentNode = uniqueNodeId(this, "conjunct");
 
-      this.setNode(vParentNode, { isConjunctNode: true });
-      this.setParent(edge.v, vParentNode);
+        super.setNode(vParentNode, { isConjunctNode: true });
+        this.setParent(edge.v, vParentNode);
 
-      const edgeLabel = this.edge(edge) || {};
+        const edgeLabel = super.edge(edge) || {};
+        const conjunctEdge = { v: vParentNode, w: edge.w, name: edge.name };
 
-      this.setEdge(vParentNode, edge.w, edgeLabel, edge.name);
-      this.removeEdge(edge);
-    }
+        super.setEdge(conjunctEdge, edgeLabel);
+        this.moveSinkNodes(edge, conjunctEdge);
+        this.removeEdge(edge);
+      }
 
-    this.setParent(node, vParentNode);
-
-    return this;
+      this.setParent(node, vParentNode);
+    });
   }
 
   /**
-   * Creates a new warrant edge or updates the label of an existing one.
+   * Creates a new warrant edge or updates the label of an existing one. If the
+   * target edge goes from a subnode of a conjunct node, the warrant targets the
+   * edge going from the conjunct node. The target edge can itself be a warrant
+   * or rebuttal edge (see {@link warrantEdge}), in which case the warrant is
+   * nested. Warrant edges cannot have labels with a size.
    *
    * @param sourceNode The source node of the warrant edge.
    * @param targetEdge The target edge of the warrant edge.
@@ -59,24 +335,382 @@ export default class Graph extends graphlibGraph {
   setWarrantEdge(
     sourceNode: string,
     targetEdge: Edge,
-    label?: any,
+    label?: EdgeLabel,
     name?: string
   ) {
-    const dummyNodeId = `${targetEdge.v} -> ${targetEdge.w}`;
+    const { v, w } = this.resolveTargetEdge(targetEdge);
 
-    if (this.hasEdge(sourceNode, dummyNodeId)) {
-      if (label) this.edge(sourceNode, dummyNodeId, name).label = label;
-      return this;
-    }
+    return this.setSinkEdge(
+      sourceNode,
+      { isWarrantSink: true, targetEdge: { v, w } },
+      label,
+      name
+    );
+  }
+
+  /**
+   * Gets the edge from a warrant node to the sink node that stands in for the
+   * edge it warrants. The returned edge can itself be the target of a warrant
+   * or rebuttal, so that warrants can be nested.
+   *
+   * @param sourceNode The source node of the warrant edge.
+   * @param targetEdge The target edge of the warrant edge.
+   * @returns The warrant edge or `undefined` if there is none.
+   */
+  warrantEdge(sourceNode: NodeId, targetEdge: Edge) {
+    return this.getSinkEdge(sourceNode, targetEdge, false);
+  }
+
+  /**
+   * Gets the edge from a rebuttal node to the sink node that stands in for the
+   * edge it rebuts. The returned edge can itself be the target of a warrant or
+   * rebuttal.
+   *
+   * @param rebuttalNode The source node of the rebuttal edge.
+   * @param targetEdge The target edge of the rebuttal edge.
+   * @returns The rebuttal edge or `undefined` if there is none.
+   */
+  rebuttalEdge(rebuttalNode: NodeId, targetEdge: Edge) {
+    return this.getSinkEdge(rebuttalNode, targetEdge, true);
+  }
+
+  /**
+   * Creates a new rebuttal edge or updates the label of an existing one. A
+   * rebuttal states an exception to the inference of the target edge. It is
+   * laid out like a warrant, but on the other side of the target edge. Like
+   * warrants, rebuttals of edges going from subnodes of a conjunct node target
+   * the edge going from the conjunct node, and rebuttal edges cannot have
+   * labels with a size.
+   *
+   * @param rebuttalNode The source node of the rebuttal edge.
+   * @param targetEdge The target edge of the rebuttal edge.
+   * @param label Value to associate with the edge.
+   * @param name Unique name for the edge (for multigraphs).
+   * @returns The graph, allowing this to be chained with other functions.
+   */
+  setRebuttal(
+    rebuttalNode: NodeId,
+    targetEdge: Edge,
+    label?: EdgeLabel,
+    name?: string
+  ) {
+    const { v, w } = this.resolveTargetEdge(targetEdge);
+
+    return this.setSinkEdge(
+      rebuttalNode,
+      { isWarrantSink: true, isRebuttalSink: true, targetEdge: { v, w } },
+      label,
+      name
+    );
+  }
+
+  /**
+   * Creates an edge from a backing node to a warrant node. The backing is laid
+   * out below the warrant, on the next rank, which is the rank of the node the
+   * warranted edge points at. Backings of rebuttals are laid out the same way,
+   * while backings of other nodes are laid out beside them.
+   *
+   * @param backingNode The node backing the warrant.
+   * @param warrantNode The source node of a warrant edge.
+   * @param label Value to associate with the edge.
+   * @param name Unique name for the edge (for multigraphs).
+   * @returns The graph, allowing this to be chained with other functions.
+   */
+  setBacking(
+    backingNode: NodeId,
+    warrantNode: NodeId,
+    label?: EdgeLabel,
+    name?: string
+  ) {
+    this.setNodeData(backingNode, { isBacking: true, backedNode: warrantNode });
 
-    this.setNode(dummyNodeId, { isWarrantSink: true, width: 0, height: 0 });
     const edgeLabel =
-      label || (this as any)._defaultEdgeLabelFn(sourceNode, dummyNodeId, name);
-    this.setEdge(sourceNode, dummyNodeId, edgeLabel, name);
+      label ||
+      (this as any)._defaultEdgeLabelFn(backingNode, warrantNode, name);
+    super.setEdge(backingNode, warrantNode, edgeLabel, name);
+
+    return this;
+  }
+
+  /**
+   * Marks a node as the qualifier of a claim, e.g., "presumably". The
+   * qualifier is laid out beside the claim.
+   *
+   * @param claimNode The qualified node.
+   * @param qualifierNode The qualifying node.
+   * @returns The graph, allowing this to be chained with other functions.
+   */
+  setQualifier(claimNode: NodeId, qualifierNode: NodeId) {
+    return this.setNodeData(qualifierNode, {
+      isQualifier: true,
+      qualifiedNode: claimNode,
+    });
+  }
+
+  /**
+   * Places nodes on the same rank by recording the other nodes in the
+   * `sameRankAs` property of each label. Groups sharing a node are placed on
+   * the same rank as well. Creates the nodes if they do not exist.
+   *
+   * @param nodes The nodes to place on the same rank.
+   * @returns The graph, allowing this to be chained with other functions.
+   */
+  setSameRank(nodes: NodeId[]) {
+    nodes.forEach((node) => {
+      const sameRankAs = new Set<NodeId>(super.node(node)?.sameRankAs);
+
+      nodes.forEach((other) => {
+        if (other !== node) sameRankAs.add(other);
+      });
+      this.setNodeData(node, { sameRankAs: [...sameRankAs] });
+    });
+
+    return this;
+  }
+
+  /**
+   * Pins a node to the first or last rank, or to a specific rank counted from
+   * the first one, by setting the `pinnedRank` property of its label. Creates
+   * the node if it does not exist.
+   *
+   * @param node The node.
+   * @param rank The rank to pin the node to.
+   * @returns The graph, allowing this to be chained with other functions.
+   */
+  pinRank(node: NodeId, rank: RankPin) {
+    return this.setNodeData(node, { pinnedRank: rank });
+  }
+
+  /**
+   * Requires node `w` to be placed at least `gap` ranks below node `v`, by
+   * adding to the `minRankGaps` property of the label of `v`. Replaces any gap
+   * set before for the same nodes. Creates the nodes if they do not exist.
+   *
+   * @param v The upper node.
+   * @param w The lower node.
+   * @param gap The minimum number of ranks between the nodes.
+   * @returns The graph, allowing this to be chained with other functions.
+   */
+  setMinRankGap(v: NodeId, w: NodeId, gap: number) {
+    const minRankGaps: { node: NodeId; gap: number }[] = (
+      super.node(v)?.minRankGaps || []
+    ).filter(({ node }: { node: NodeId }) => node !== w);
+
+    if (!this.hasNode(w)) super.setNode(w);
+
+    return this.setNodeData(v, {
+      minRankGaps: [...minRankGaps, { node: w, gap }],
+    });
+  }
+
+  /**
+   * Creates a node if it does not exist and adds metadata, e.g., about its
+   * role, to its label.
+   *
+   * @param node The node.
+   * @param data Metadata to add to the label.
+   * @returns The graph, allowing this to be chained with other functions.
+   */
+  private setNodeData(node: NodeId, data: object) {
+    if (!this.hasNode(node)) super.setNode(node);
+
+    const nodeLabel = super.node(node);
+
+    if (nodeLabel) Object.assign(nodeLabel, data);
+    else super.setNode(node, { ...data });
 
     return this;
   }
 
+  /**
+   * Creates a new edge to a sink node, which stands in for an edge, or updates
+   * the label of an existing one.
+   *
+   * @param sourceNode The source node of the edge.
+   * @param sinkData Metadata to add to the label of the sink node.
+   * @param label Value to associate with the edge.
+   * @param name Unique name for the edge (for multigraphs).
+   * @returns The graph, allowing this to be chained with other functions.
+   */
+  private setSinkEdge(
+    sourceNode: NodeId,
+    sinkData: { isWarrantSink: true; isRebuttalSink?: true; targetEdge: Edge },
+    label?: EdgeLabel,
+    name?: string
+  ) {
+    const { targetEdge, isRebuttalSink } = sinkData;
+
+    return this.keepNodeIds(() => {
+      const sinkEdge = this.getSinkEdge(
+        sourceNode,
+        targetEdge,
+        !!isRebuttalSink
+      );
+
+      if (sinkEdge) {
+        if (label) super.setEdge(sinkEdge.v, sinkEdge.w, label, name);
+        return;
+      }
+
+      const sinkNode = uniqueNodeId(
+        this,
+        isRebuttalSink ? "rebuttal" : "warrant"
+      );
+
+      super.setNode(sinkNode, { ...sinkData, width: 0, height: 0 });
+      const edgeLabel =
+        label || (this as any)._defaultEdgeLabelFn(sourceNode, sinkNode, name);
+      super.setEdge(sourceNode, sinkNode, edgeLabel, name);
+    });
+  }
+
+  /**
+   * Changes the graph without releasing the IDs of internal nodes, which
+   * graphlib sets again when setting their edges and children.
+   *
+   * @param change A function changing the graph.
+   * @returns The graph, allowing this to be chained with other functions.
+   */
+  private keepNodeIds(change: () => void) {
+    const wasKeepingNodeIds = this.isKeepingNodeIds;
+
+    this.isKeepingNodeIds = true;
+    try {
+      change();
+    } finally {
+      this.isKeepingNodeIds = wasKeepingNodeIds;
+    }
+
+    return this;
+  }
+
+  /**
+   * Moves an internal node to a new ID if a user node of the same ID is set,
+   * so that any string can be used as the ID of a user node. The edges,
+   * subnodes and warrants of the internal node are moved along with it.
+   *
+   * @param node The ID set by the user.
+   */
+  private releaseNodeId(node: NodeId) {
+    const nodeLabel = super.node(node);
+
+    if (
+      this.isKeepingNodeIds ||
+      !(nodeLabel?.isConjunctNode || nodeLabel?.isWarrantSink)
+    )
+      return;
+
+    this.keepNodeIds(() => {
+      const newNode = uniqueNodeId(
+        this,
+        nodeLabel.isConjunctNode
+          ? "conjunct"
+          : nodeLabel.isRebuttalSink
+          ? "rebuttal"
+          : "warrant"
+      );
+      const rename = (other: NodeId) => (other === node ? newNode : other);
+      const edges = this.nodeEdges(node)!.map((edge) => ({
+        ...edge,
+        label: super.edge(edge),
+      }));
+
+      super.setNode(newNode, nodeLabel);
+      this.children(node)!.forEach((child) => this.setParent(child, newNode));
+      edges.forEach(({ v, w, name, label }) => {
+        super.removeEdge(v, w, name);
+        super.setEdge(rename(v), rename(w), label, name);
+      });
+      this.nodes().forEach((other) => {
+        const targetEdge = super.node(other)?.targetEdge;
+
+        if (targetEdge)
+          super.node(other).targetEdge = {
+            v: rename(targetEdge.v),
+            w: rename(targetEdge.w),
+          };
+      });
+      super.removeNode(node);
+    });
+  }
+
+  /**
+   * Replaces an edge that goes from a subnode of a conjunct node with the edge
+   * going from the conjunct node, unless the edge itself exists.
+   *
+   * @param edge An edge.
+   * @returns The edge to use as the target of a warrant or rebuttal.
+   */
+  private resolveTargetEdge(edge: Edge): Edge {
+    const parentNode = this.parent(edge.v);
+
+    if (
+      this.hasEdge(edge) ||
+      !parentNode ||
+      !super.node(parentNode)?.isConjunctNode
+    )
+      return edge;
+
+    return { v: parentNode, w: edge.w };
+  }
+
+  /**
+   * Gets the sink nodes of the warrants and rebuttals targeting an edge.
+   *
+   * @param edge The target edge.
+   * @returns The IDs of the sink nodes.
+   */
+  private getSinkNodes(edge: Edge) {
+    return this.nodes().filter((node) => {
+      const targetEdge = super.node(node)?.targetEdge;
+
+      return targetEdge?.v === edge.v && targetEdge?.w === edge.w;
+    });
+  }
+
+  /**
+   * Gets the edge from a source node to the sink node of a warrant or rebuttal
+   * of an edge.
+   *
+   * @param sourceNode The source node.
+   * @param targetEdge The target edge.
+   * @param isRebuttal Whether to look for a rebuttal instead of a warrant.
+   * @returns The edge or `undefined` if there is none.
+   */
+  private getSinkEdge(
+    sourceNode: NodeId,
+    targetEdge: Edge,
+    isRebuttal: boolean
+  ): Edge | undefined {
+    const sinkNode = this.getSinkNodes(this.resolveTargetEdge(targetEdge)).find(
+      (node) =>
+        !!super.node(node).isRebuttalSink === isRebuttal &&
+        this.hasEdge(sourceNode, node)
+    );
+
+    return sinkNode === undefined ? undefined : { v: sourceNode, w: sinkNode };
+  }
+
+  /**
+   * Moves the warrants and rebuttals targeting an edge to another edge.
+   *
+   * @param edge The current target edge.
+   * @param newEdge The new target edge.
+   */
+  private moveSinkNodes(edge: Edge, newEdge: Edge) {
+    this.getSinkNodes(edge).forEach((sinkNode) => {
+      const sinkEdge = this.inEdges(sinkNode)![0];
+      const sinkEdgeLabel = super.edge(sinkEdge);
+      const isRebuttal = super.node(sinkNode).isRebuttalSink;
+
+      this.removeNode(sinkNode);
+      if (isRebuttal)
+        this.setRebuttal(sinkEdge.v, newEdge, sinkEdgeLabel, sinkEdge.name);
+      else
+        this.setWarrantEdge(sinkEdge.v, newEdge, sinkEdgeLabel, sinkEdge.name);
+    });
+  }
+
   /**
    * @param v Either the edge to be removed or the ID of the source node.
    * @param wAndName Should be `w: string, name?: string` if `v` is not `Edge`.
@@ -97,19 +731,18 @@ export default class Graph extends graphlibGraph {
       _name = edge.name;
     }
 
-    if (this.node(_v)?.isConjunctNode) {
+    if (super.node(_v)?.isConjunctNode) {
       this.removeNode(_v);
-    } else if (this.node(_w)?.isWarrantSink) {
+    } else if (super.node(_w)?.isWarrantSink) {
       this.removeNode(_w);
     }
 
-    const possibleWarrantSink = `${_v} -> ${_w}`;
-
-    if (this.hasNode(possibleWarrantSink)) {
-      const warrantSource = this.predecessors(possibleWarrantSink)![0];
-      this.removeNode(possibleWarrantSink);
-      this.node(warrantSource).isWarrantSource = false;
-    }
+    this.getSinkNodes({ v: _v, w: _w }).forEach((sinkNode) => {
+      const warrantSource = this.predecessors(sinkNode)![0];
+      this.removeEdge(warrantSource, sinkNode);
+      if (super.node(warrantSource))
+        super.node(warrantSource).isWarrantSource = false;
+    });
 
     super.removeEdge(_v, _w, _name);
 
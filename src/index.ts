@@ -1,12 +1,110 @@
 /**
  * @module argumappr
  *
- * Provides a graph data structure via the {@link Graph} class and a function to
- * produce layered graph layouts via {@link layOutGraph}. Is specifically
- * developed to support argument maps, but can be used for other purposes.
+ * Provides a graph data structure via the {@link Graph} class and functions to
+ * produce layered graph layouts via {@link layOutGraph}, which assigns the
+ * layout to the graph, and {@link computeLayout}, which returns it. Graphs can
+ * be checked for structural problems beforehand via {@link validateGraph}. The
+ * stages of the layout algorithm are exported as well, and can be run one at a
+ * time or replaced via {@link LayoutPipeline}. Is specifically developed to
+ * support argument maps, but can be used for other purposes.
  */
 
 import Graph from "./graph.js";
-import layOutGraph from "./lay-out-graph.js";
+import type {
+  ConjunctLayout,
+  EdgeLayout,
+  EdgePolarity,
+  EdgeLayoutResult,
+  GraphLayout,
+  LaidOutGraph,
+  LayoutGraph,
+  LayoutResult,
+  NodeLayout,
+  Point,
+  RankPin,
+  WarrantLayout,
+} from "./graph.js";
+import layOutGraph, {
+  LayoutPipeline,
+  computeLayout,
+  defaultLayoutStages,
+} from "./lay-out-graph.js";
+import type { LayoutStageName, LayoutStages } from "./lay-out-graph.js";
+import removeCycles from "./remove-cycles.js";
+import type { ModifiedEdges } from "./remove-cycles.js";
+import layerNodes from "./layer-nodes.js";
+import minimiseCrossings from "./minimise-crossings.js";
+import straightenEdges from "./straighten-edges.js";
+import validateGraph from "./validate-graph.js";
+import type { GraphDiagnostic, GraphDiagnosticCode } from "./validate-graph.js";
+import {
+  InvalidGraphError,
+  InvalidOptionError,
+  LayoutConvergenceError,
+  LayoutError,
+  RankConstraintError,
+  UnsupportedStructureError,
+} from "./errors.js";
+import type { InvolvedElements } from "./errors.js";
+import { RankTable } from "./utils.js";
+import type {
+  CrossingMinimisation,
+  CycleRemovalStrategy,
+  EdgeAndLabel,
+  LayerBalancing,
+  LayoutOptions,
+  NodeId,
+  Orientation,
+  RankDirection,
+  Ranker,
+} from "./utils.js";
 
-export { Graph, layOutGraph };
+export {
+  Graph,
+  InvalidGraphError,
+  InvalidOptionError,
+  LayoutConvergenceError,
+  LayoutError,
+  LayoutPipeline,
+  RankConstraintError,
+  RankTable,
+  UnsupportedStructureError,
+  computeLayout,
+  defaultLayoutStages,
+  layOutGraph,
+  layerNodes,
+  minimiseCrossings,
+  removeCycles,
+  straightenEdges,
+  validateGraph,
+};
+export type {
+  ConjunctLayout,
+  CrossingMinimisation,
+  CycleRemovalStrategy,
+  EdgeAndLabel,
+  EdgeLayout,
+  EdgePolarity,
+  EdgeLayoutResult,
+  GraphDiagnostic,
+  GraphDiagnosticCode,
+  GraphLayout,
+  InvolvedElements,
+  LaidOutGraph,
+  LayerBalancing,
+  LayoutGraph,
+  LayoutOptions,
+  LayoutResult,
+  LayoutStageName,
+  LayoutStages,
+  ModifiedEdges,
+  NodeId,
+  NodeLayout,
+  Orientation,
+  Point,
+  RankDirection,
+  RankPin,
+  Ranker,
+  WarrantLayout,
+};
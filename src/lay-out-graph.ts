@@ -1,14 +1,121 @@
-import Graph from "./graph.js";
-import removeCycles from "./remove-cycles.js";
+import Graph, {
+  LaidOutGraph,
+  LayoutEdgeLabel,
+  LayoutGraph,
+  LayoutResult,
+  NodeLayout,
+  Point,
+} from "./graph.js";
+import removeCycles, { ModifiedEdges } from "./remove-cycles.js";
 import layerNodes from "./layer-nodes.js";
 import minimiseCrossings from "./minimise-crossings.js";
 import straightenEdges from "./straighten-edges.js";
-import { buildLayoutGraph, updateInputGraph } from "./utils.js";
-import drawBezierCurves from "./draw-bezier-curves.js";
+import {
+  LayoutOptions,
+  NodeId,
+  RankTable,
+  adjustCoordinateSystem,
+  buildLayoutGraph,
+  buildLayoutResult,
+  getWarrantDepth,
+  makeSpaceForEdgeLabels,
+  makeSpaceForLoops,
+  mergeRoleNodes,
+  splitRoleNodes,
+  undoCoordinateSystem,
+  updateInputGraph,
+} from "./utils.js";
+import drawBezierCurves, {
+  drawBezierCurve,
+  getCurvePoint,
+} from "./draw-bezier-curves.js";
+import validateGraph from "./validate-graph.js";
+import { LayoutError, createGraphError } from "./errors.js";
+
+/**
+ * The replaceable stages of the layout algorithm, in the order they are run.
+ * Each stage receives the internal layout graph and the result of the previous
+ * stage, and may mutate the layout graph.
+ *
+ * @remarks
+ * Custom stages must produce the same kind of result as the default stages in
+ * {@link defaultLayoutStages} and leave the layout graph in the state the
+ * following stages expect. The simplest way to achieve this is to wrap the
+ * default stage, e.g., to reorder the nodes of the matrix it returns.
+ */
+export interface LayoutStages {
+  /**
+   * Makes the graph acyclic and returns the original versions of the edges it
+   * modified, so that they can be restored.
+   */
+  removeCycles: (graph: LayoutGraph) => ModifiedEdges;
+  /**
+   * Assigns nodes to ranks and *y*-coordinates, and returns the ranks.
+   */
+  layerNodes: (graph: LayoutGraph) => RankTable;
+  /**
+   * Splits long edges and orders the nodes of each rank, and returns the
+   * resulting node matrix.
+   */
+  minimiseCrossings: (graph: LayoutGraph, ranks: RankTable) => NodeId[][];
+  /**
+   * Assigns *x*-coordinates to the nodes of the node matrix.
+   */
+  straightenEdges: (graph: LayoutGraph, graphMatrix: NodeId[][]) => void;
+}
+
+/**
+ * The number of intervals in which edge curves are sampled when placing warrant
+ * sinks on them.
+ */
+const CURVE_SAMPLE_COUNT = 100;
+
+/**
+ * The name of a replaceable stage of the layout algorithm.
+ */
+export type LayoutStageName = keyof LayoutStages;
+
+/**
+ * The stages used by {@link computeLayout} unless replaced.
+ */
+export const defaultLayoutStages: Readonly<LayoutStages> = Object.freeze({
+  removeCycles,
+  layerNodes,
+  minimiseCrossings,
+  straightenEdges,
+});
+
+const STAGE_ORDER: readonly LayoutStageName[] = [
+  "removeCycles",
+  "layerNodes",
+  "minimiseCrossings",
+  "straightenEdges",
+];
+
+/**
+ * Produces a hierarchical layout for the input graph, which must be directed.
+ * Assigns layout information to the input graph and returns nothing. The label
+ * types of the graph are then extended with the layout information.
+ *
+ * @remarks
+ * The layout is produced by {@link computeLayout}, whose remarks apply.
+ *
+ * @param graph A graph object. Must be directed.
+ * @param options Layout options.
+ * @param stages Replacements for stages of the layout algorithm.
+ */
+export default function layOutGraph<NodeLabel, EdgeLabel, GraphLabel>(
+  graph: Graph<NodeLabel, EdgeLabel, GraphLabel>,
+  options?: LayoutOptions,
+  stages?: Partial<LayoutStages>
+): asserts graph is LaidOutGraph<NodeLabel, EdgeLabel, GraphLabel> {
+  const layout = computeLayout(graph, options, stages);
+  updateInputGraph(graph, layout);
+}
 
 /**
  * Produces a hierarchical layout for the input graph, which must be directed.
- * Assigns layout information to the input graph and returns nothing.
+ * Returns the layout and leaves the input graph untouched.
  *
  * @remarks
  * This algorithm is based on the Sugiyama method. It generates a layered graph
@@ -19,98 +126,428 @@ import drawBezierCurves from "./draw-bezier-curves.js";
  *   4. Straighten edges
  *
  * Each step uses specific sub-algorithms. Various changes have been made to the
- * original algorithms to support argument maps.
+ * original algorithms to support argument maps. Warrants are placed beside the
+ * edge they target and rebuttals on its other side. Backings of warrants and
+ * rebuttals are placed below them, on the next rank, and qualifiers beside
+ * their claims, on the same level. Claims and data have no roles of their own,
+ * since they are just the targets and sources of ordinary edges.
+ *
+ * The layout is always produced top-to-bottom and then transformed according
+ * to the `rankdir` option (`"tb"`, `"bt"`, `"lr"` or `"rl"`). With the
+ * `orientation` option set to `"conclusion-above"`, the ranks are laid out in
+ * the opposite direction, so that claims come before the premises supporting
+ * them, while edges still point at the claims.
+ *
+ * Options may also be set as properties of the graph label, but those passed
+ * in `options` take precedence. Invalid option values cause an error to be
+ * thrown. The graph is checked by {@link validateGraph} first. All errors thrown
+ * are subclasses of {@link LayoutError} and carry the nodes and edges involved.
+ *
+ * Each of the four steps can be replaced through `stages` (see
+ * {@link LayoutStages}). To run the steps one at a time and inspect their
+ * results, use a {@link LayoutPipeline}.
  *
  * @see
  * [Methods for VisualUnderstanding of Hierarchical System Structures](https://ieeexplore.ieee.org/document/4308636)
  *
  * @param graph A graph object. Must be directed.
+ * @param options Layout options.
+ * @param stages Replacements for stages of the layout algorithm.
+ * @returns The layout of the graph.
+ */
+export function computeLayout(
+  graph: Graph,
+  options?: LayoutOptions,
+  stages?: Partial<LayoutStages>
+): LayoutResult {
+  return new LayoutPipeline(graph, options, stages).run();
+}
+
+/**
+ * Runs the layout algorithm of {@link computeLayout} stage by stage, exposing
+ * the intermediate results. Running a stage runs any earlier stages that have
+ * not been run yet. Each stage can only be run once.
+ *
+ * @remarks
+ * The intermediate results are the live objects used by the algorithm, so
+ * later stages may still modify them. The layout graph is an internal copy of
+ * the input graph, which is left untouched.
  */
-export default function layOutGraph(graph: Graph) {
-  if (!graph.isDirected()) {
-    throw new Error("Graph must be directed for layered drawing");
+export class LayoutPipeline {
+  /** The internal graph that the stages operate on. */
+  readonly layoutGraph: LayoutGraph;
+  /** The edges modified by cycle removal, once it has run. */
+  modifiedEdges?: ModifiedEdges;
+  /** The ranks of the nodes, once the nodes have been layered. */
+  ranks?: RankTable;
+  /** The ordered nodes of each rank, once crossings have been minimised. */
+  graphMatrix?: NodeId[][];
+
+  private readonly inputGraph: Graph;
+  private readonly stages: LayoutStages;
+  private readonly roleNodes: ReturnType<typeof mergeRoleNodes>;
+  private completedStageCount = 0;
+  private isFinished = false;
+
+  /**
+   * Checks the input graph and prepares the layout graph.
+   *
+   * @param graph A graph object. Must be directed.
+   * @param options Layout options.
+   * @param stages Replacements for stages of the layout algorithm.
+   */
+  constructor(
+    graph: Graph,
+    options?: LayoutOptions,
+    stages: Partial<LayoutStages> = {}
+  ) {
+    const diagnostics = validateGraph(graph);
+
+    if (diagnostics.length) throw createGraphError(diagnostics);
+
+    this.inputGraph = graph;
+    this.stages = { ...defaultLayoutStages, ...stages };
+    this.layoutGraph = buildLayoutGraph(graph, options);
+    makeSpaceForEdgeLabels(this.layoutGraph);
+    adjustCoordinateSystem(this.layoutGraph);
+    makeSpaceForLoops(this.layoutGraph);
+    this.roleNodes = mergeRoleNodes(this.layoutGraph);
+  }
+
+  /**
+   * Runs cycle removal (step 1).
+   *
+   * @returns The original versions of the modified edges.
+   */
+  removeCycles() {
+    this.runStagesUpTo("removeCycles");
+    return this.modifiedEdges!;
+  }
+
+  /**
+   * Runs node layering (step 2).
+   *
+   * @returns The ranks of the nodes.
+   */
+  layerNodes() {
+    this.runStagesUpTo("layerNodes");
+    return this.ranks!;
   }
 
-  const layoutGraph = buildLayoutGraph(graph);
+  /**
+   * Runs crossing minimisation (step 3).
+   *
+   * @returns The node matrix.
+   */
+  minimiseCrossings() {
+    this.runStagesUpTo("minimiseCrossings");
+    return this.graphMatrix!;
+  }
+
+  /**
+   * Runs coordinate assignment (step 4).
+   */
+  straightenEdges() {
+    this.runStagesUpTo("straightenEdges");
+  }
 
-  // Primary algorithm steps
-  const originalEdges = removeCycles(layoutGraph); // Step 1
-  const ranks = layerNodes(layoutGraph); // Step 2
-  const graphMatrix = minimiseCrossings(layoutGraph, ranks); // Step 3
-  straightenEdges(layoutGraph, graphMatrix); // Step 4
+  /**
+   * Runs all remaining stages, finalises the layout and returns it.
+   *
+   * @returns The layout of the input graph.
+   */
+  run(): LayoutResult {
+    if (this.isFinished)
+      throw new LayoutError("The layout pipeline has already been run", {});
 
-  restoreEdges(layoutGraph, originalEdges);
-  finaliseWarrantPositions(layoutGraph);
-  drawBezierCurves(layoutGraph);
-  removeDummyNodes(layoutGraph);
+    if (this.completedStageCount < STAGE_ORDER.length) this.straightenEdges();
+    this.isFinished = true;
+
+    finaliseWarrantPositions(this.layoutGraph);
+    restoreEdges(this.layoutGraph, this.modifiedEdges!);
+    splitRoleNodes(this.layoutGraph, this.roleNodes);
+    drawBezierCurves(this.layoutGraph);
+    placeWarrantSinks(this.layoutGraph);
+    removeDummyNodes(this.layoutGraph);
+    undoCoordinateSystem(this.layoutGraph);
+
+    return buildLayoutResult(this.inputGraph, this.layoutGraph);
+  }
 
-  updateInputGraph(graph, layoutGraph);
+  /**
+   * Runs all stages that have not been run yet, up to and including `stage`.
+   *
+   * @param stage The last stage to run.
+   */
+  private runStagesUpTo(stage: LayoutStageName) {
+    const stageIndex = STAGE_ORDER.indexOf(stage);
+
+    if (this.isFinished || this.completedStageCount > stageIndex)
+      throw new LayoutError(`Stage "${stage}" has already been run`, {});
+
+    while (this.completedStageCount <= stageIndex) {
+      this.runStage(STAGE_ORDER[this.completedStageCount]);
+      this.completedStageCount++;
+    }
+  }
+
+  /**
+   * Runs a single stage and stores its result.
+   *
+   * @param stage The stage to run.
+   */
+  private runStage(stage: LayoutStageName) {
+    const { layoutGraph, stages } = this;
+
+    switch (stage) {
+      case "removeCycles":
+        this.modifiedEdges = stages.removeCycles(layoutGraph);
+        break;
+      case "layerNodes":
+        this.ranks = stages.layerNodes(layoutGraph);
+        break;
+      case "minimiseCrossings":
+        this.graphMatrix = stages.minimiseCrossings(layoutGraph, this.ranks!);
+        break;
+      case "straightenEdges":
+        stages.straightenEdges(layoutGraph, this.graphMatrix!);
+    }
+  }
 }
 
 /**
  * Restores the graph to its original state by reverting the changes made during
- * cycle removal.
+ * cycle removal. Restored loops are marked with `isLoop` and reversed edges
+ * with `reversed`. All segments of long reversed edges are turned around, so
+ * that their points are drawn from their actual source.
  *
  * @param graph A graph object.
  * @param originalEdges Original edges of the graph.
  */
-function restoreEdges(
-  graph: Graph,
-  originalEdges: ReturnType<typeof removeCycles>
-) {
+function restoreEdges(graph: LayoutGraph, originalEdges: ModifiedEdges) {
   originalEdges.deletedLoops.forEach((edge) => {
     const { v, w, label, name } = edge;
-    graph.setEdge(v, w, label, name);
+    graph.setEdge(v, w, { ...label, isLoop: true }, name);
   });
   originalEdges.reversedEdges.forEach((edge) => {
     const { v, w, label, name } = edge;
-    const edgeData = graph.edge(w, v);
-    graph.removeEdge(w, v);
-    graph.setEdge(v, w, { ...label, ...edgeData }, name);
+    let node = w;
+
+    // Dummy nodes of long edges refer to the label of their edge
+    label.reversed = true;
+    while (node !== v) {
+      const next = graph.successors(node)!.find((successor) => {
+        const { isDummyNode, edgeData } = graph.node(successor);
+        return successor === v || (isDummyNode && edgeData === label);
+      })!;
+      const edgeData = graph.edge(node, next);
+
+      graph.removeEdge(node, next);
+      if (node === w && next === v)
+        graph.setEdge(v, w, { ...label, ...edgeData }, name);
+      else graph.setEdge(next, node, edgeData);
+      node = next;
+    }
   });
 }
 
 /**
  * Removes from the graph the *long edge dummy nodes* produced during crossing
- * minimisation.
+ * minimisation. Edges with a label dummy node are given the position of their
+ * label.
  *
  * @param graph A graph object.
  */
-function removeDummyNodes(graph: Graph) {
+function removeDummyNodes(graph: LayoutGraph) {
   const dummyNodes = graph
     .nodes()
     .filter((node) => graph.node(node)?.isDummyNode);
   dummyNodes.forEach((node) => {
     const parent = graph.predecessors(node)![0];
     const child = graph.successors(node)![0];
-    const edgeData = graph.node(node).edgeData;
-    const inEdgePoints = graph.edge(parent, node).points;
-    const outEdgePoints = graph.edge(node, child).points;
+    const nodeLabel = graph.node(node);
+    const edgeData = nodeLabel.edgeData;
+    const inEdgeLabel = graph.edge(parent, node);
+    const outEdgeLabel = graph.edge(node, child);
+    const inEdgePoints = inEdgeLabel.points;
+    const outEdgePoints = outEdgeLabel.points;
     const newPoints = [inEdgePoints[0], inEdgePoints[2], outEdgePoints[2]];
+    const labelPosition = nodeLabel.isLabelDummyNode
+      ? getLabelPosition(nodeLabel, edgeData)
+      : [inEdgeLabel, outEdgeLabel].find((label) => label.x !== undefined);
+    const newEdgeLabel = { ...edgeData, points: newPoints };
+
+    if (labelPosition) {
+      newEdgeLabel.x = labelPosition.x;
+      newEdgeLabel.y = labelPosition.y;
+    }
 
     graph.removeNode(node);
-    graph.setEdge(parent, child, { ...edgeData, points: newPoints });
+    graph.setEdge(parent, child, newEdgeLabel);
   });
 }
 
 /**
- * Removes dummy warrant nodes, re-adds the original warrant nodes and sets them
- * to their final positions.
+ * Calculates the position of an edge label from its label dummy node, which
+ * lies on the edge. Labels are placed to the left (`"l"`), to the right
+ * (`"r"`) or on top (`"c"`) of the edge, offset by `labeloffset`.
+ *
+ * @param dummyNodeLabel The label of a label dummy node.
+ * @param edgeData The label of the original edge.
+ * @returns The position of the edge label.
+ */
+function getLabelPosition(
+  dummyNodeLabel: NodeLayout,
+  edgeData: LayoutEdgeLabel
+) {
+  const { width, labelpos, labeloffset } = edgeData;
+  const { x, y } = dummyNodeLabel;
+
+  switch (labelpos.toLowerCase()) {
+    case "l":
+      return { x: x - width / 2 - labeloffset, y };
+    case "r":
+      return { x: x + width / 2 + labeloffset, y };
+    default:
+      return { x, y };
+  }
+}
+
+/**
+ * Removes dummy warrant nodes, re-adds the original warrant nodes and their
+ * edges, and sets them to their final positions. Warrant sinks are placed
+ * halfway between the nodes of the edge they target, until
+ * {@link placeWarrantSinks} moves them onto the drawn edge. The position of
+ * the dummy sink is kept for any backings below the warrant. Outer warrants are
+ * finalised before the warrants nested within them, whose target edges they
+ * complete.
  *
  * @param graph A graph object.
  */
-function finaliseWarrantPositions(graph: Graph) {
+function finaliseWarrantPositions(graph: LayoutGraph) {
   const warrantDummySources = graph
     .nodes()
-    .filter((node) => graph.node(node).isWarrantDummySource);
+    .filter((node) => graph.node(node).isWarrantDummySource)
+    .sort(
+      (node0, node1) =>
+        graph.node(node0).warrantNodes.depth -
+        graph.node(node1).warrantNodes.depth
+    );
 
   warrantDummySources.forEach((node) => {
     const nodeLabel = graph.node(node);
-    const { source, sink } = nodeLabel.warrantNodes;
-    const targetSource = sink.id.split(" -> ")[0];
-    const targetEdgeX = graph.node(targetSource).x;
+    const { source, sink, edgeLabel, dummySink } = nodeLabel.warrantNodes;
+    const { v, w } = sink.label.targetEdge;
+    const { x: vX, y: vY } = graph.node(v);
+    const { x: wX, y: wY } = graph.node(w);
+
+    const sourceLabel = { ...source.label, x: nodeLabel.x };
+    const { x: dummySinkX, y: dummySinkY } = graph.node(dummySink);
+
+    if (sourceLabel.backingSize)
+      sourceLabel.backingPosition = { x: dummySinkX, y: dummySinkY };
+    graph.setNode(source.id, sourceLabel);
+    graph.setNode(sink.id, {
+      ...sink.label,
+      x: (vX + wX) / 2,
+      y: (vY + wY) / 2,
+    });
+
+    graph.inEdges(node)!.forEach((edge) => {
+      graph.setEdge(edge.v, source.id, graph.edge(edge));
+    });
+    graph.outEdges(dummySink)!.forEach((edge) => {
+      graph.setEdge(source.id, edge.w, graph.edge(edge));
+    });
+    graph.setEdge(source.id, sink.id, edgeLabel);
+
+    graph.removeNode(node);
+    graph.removeNode(dummySink);
+  });
+}
+
+/**
+ * Moves each warrant sink onto the visible part of the curve of the edge it
+ * targets, i.e., the part outside the nodes of that edge, and redraws the
+ * warrant edge. The sink is placed at the height of its warrant if the visible
+ * part passes it, so that the warrant edge does not run across sibling
+ * warrants, and halfway along the visible part otherwise. Outer warrants are
+ * placed before the warrants nested within them, as their edges are the target
+ * edges of the nested warrants. Sinks of edges that span several ranks keep
+ * their position.
+ *
+ * @param graph A graph object.
+ */
+function placeWarrantSinks(graph: LayoutGraph) {
+  const warrantSinks = graph
+    .nodes()
+    .filter((node) => graph.node(node).isWarrantSink)
+    .sort(
+      (sink0, sink1) =>
+        getWarrantDepth(graph, sink0) - getWarrantDepth(graph, sink1)
+    );
+
+  warrantSinks.forEach((sink) => {
+    const { targetEdge } = graph.node(sink);
+    const warrantSource = graph.predecessors(sink)![0];
+    const warrantY = graph.node(warrantSource).y;
+
+    if (!graph.hasEdge(targetEdge.v, targetEdge.w)) return;
+
+    const getPoint = (t: number) => getCurvePoint(graph, targetEdge, t);
+    const visibleTs = [...Array(CURVE_SAMPLE_COUNT + 1).keys()]
+      .map((sample) => sample / CURVE_SAMPLE_COUNT)
+      .filter((t) =>
+        [targetEdge.v, targetEdge.w].every(
+          (node) => !isInsideNode(graph, node, getPoint(t))
+        )
+      );
 
-    graph.setNode(source.id, { ...source.label, x: nodeLabel.x });
-    graph.setNode(sink.id, { ...sink.label, x: targetEdgeX });
+    if (!visibleTs.length) return;
+
+    const getHeightDifference = (t: number) => getPoint(t).y - warrantY;
+    const crossingIndex = visibleTs.findIndex(
+      (t, index) =>
+        index > 0 &&
+        getHeightDifference(visibleTs[index - 1]) * getHeightDifference(t) <= 0
+    );
+    let sinkT = (visibleTs[0] + visibleTs[visibleTs.length - 1]) / 2;
+
+    if (crossingIndex > 0) {
+      let lowerT = visibleTs[crossingIndex - 1];
+      let upperT = visibleTs[crossingIndex];
+
+      // Bisects to the point at the height of the warrant
+      for (let step = 0; step < 50; step++) {
+        const middleT = (lowerT + upperT) / 2;
+
+        if (getHeightDifference(lowerT) * getHeightDifference(middleT) <= 0)
+          upperT = middleT;
+        else lowerT = middleT;
+      }
+      sinkT = (lowerT + upperT) / 2;
+    }
+
+    Object.assign(graph.node(sink), getPoint(sinkT));
+    drawBezierCurve(graph, { v: warrantSource, w: sink });
   });
 }
+
+/**
+ * Checks whether a point lies strictly inside the box of a node. Warrant sinks
+ * have no box.
+ *
+ * @param graph A graph object.
+ * @param node A node ID.
+ * @param point A point.
+ * @returns `true` if the point is inside the node.
+ */
+function isInsideNode(graph: LayoutGraph, node: NodeId, point: Point) {
+  const { x, y, width, height, isWarrantSink } = graph.node(node);
+
+  return (
+    !isWarrantSink &&
+    Math.abs(point.x - x) < width / 2 &&
+    Math.abs(point.y - y) < height / 2
+  );
+}
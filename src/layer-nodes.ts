@@ -1,23 +1,102 @@
 import { Edge } from "graphlib";
-import Graph from "./graph.js";
+import { LayoutGraph, LayoutNodeLabel } from "./graph.js";
+import { LayoutConvergenceError } from "./errors.js";
+import {
+  applyRankConstraints,
+  enforcePinnedRanks,
+  removeRankConstraints,
+} from "./rank-constraints.js";
 import {
   EdgeAndLabel,
   NodeId,
   RankTable,
+  SubnodeData,
+  createLayoutGraph,
+  getWarrantDepth,
   mergeConjunctNodes,
   splitConjunctNodes,
+  uniqueNodeId,
 } from "./utils.js";
 
 /**
- * Assigns all nodes of the input graph to optimal ranks, gives them
- * *y*-coordinates based on their layer and returns the layers.
+ * Assigns all nodes of the input graph to ranks, gives them *y*-coordinates
+ * based on their layer and returns the layers.
+ *
+ * @remarks
+ * The ranks are computed by the algorithm chosen with the `ranker` option of
+ * the graph label: network simplex (the default), longest path or
+ * Coffman–Graham (see {@link getNetworkSimplexRanks},
+ * {@link getLongestPathRanks} and {@link getCoffmanGrahamRanks}). Rank
+ * constraints set with {@link Graph.setSameRank}, {@link Graph.pinRank} and
+ * {@link Graph.setMinRankGap} are respected by all of them (see
+ * {@link applyRankConstraints}); a {@link RankConstraintError} is thrown if
+ * they cannot be satisfied.
+ *
+ * @param graph A graph object. Must be directed and acyclic.
+ * @returns A rank table.
+ */
+export default function layerNodes(graph: LayoutGraph) {
+  const conjunctNodes = mergeConjunctNodes(graph);
+  const metaWarrantNodes = mergeWarrantStructures(graph);
+  const rankConstraints = applyRankConstraints(graph);
+  const ranks = rankNodes(graph);
+
+  normalizeRanks(graph, ranks);
+  balanceLayering(graph, ranks);
+  enforcePinnedRanks(graph, ranks, rankConstraints);
+  removeRankConstraints(graph, ranks, rankConstraints);
+  normalizeRanks(graph, ranks);
+  splitWarrantStructures(graph, ranks, metaWarrantNodes);
+  splitConjunctNodes(graph, conjunctNodes, ranks);
+  setLabelRanks(graph, ranks);
+  setYCoordinates(graph, ranks);
+
+  return ranks;
+}
+
+/**
+ * Assigns all nodes to ranks with the algorithm chosen by the `ranker` option
+ * of the graph label.
+ *
+ * @param graph A graph object. Must be directed and acyclic.
+ * @returns A rank table, which may have to be normalised.
+ */
+function rankNodes(graph: LayoutGraph) {
+  const { ranker } = graph.graph() || {};
+
+  switch (ranker) {
+    case "longest-path":
+      return getLongestPathRanks(graph);
+    case "coffman-graham":
+      return getCoffmanGrahamRanks(graph, getMaxLayerWidth(graph));
+    default:
+      return getNetworkSimplexRanks(graph);
+  }
+}
+
+/**
+ * Gets the maximum number of nodes per rank for the Coffman–Graham ranker from
+ * the `maxLayerWidth` option of the graph label, which defaults to the square
+ * root of the number of nodes, rounded up.
+ *
+ * @param graph A graph object.
+ * @returns The maximum number of nodes per rank.
+ */
+function getMaxLayerWidth(graph: LayoutGraph): number {
+  const { maxLayerWidth } = graph.graph() || {};
+  return maxLayerWidth ?? Math.ceil(Math.sqrt(graph.nodeCount()));
+}
+
+/**
+ * Assigns all nodes to optimal ranks and returns them.
  *
  * @remarks
  * This algorithm is based on Gansner et al.'s network simplex algorithm. It
  * calculates a feasible tree and then iteratively improves it by moving nodes
- * based on the cut values of their edges. The results are optimal. The
- * algorithm has a non-proven (assumed) polynomial run time and is reported to
- * be fast in practice.
+ * based on the cut values of their edges. The results are optimal, in the sense
+ * that the sum of edge lengths weighted by the `weight` of each edge is
+ * minimised. The algorithm has a non-proven (assumed) polynomial run time and
+ * is reported to be fast in practice.
  *
  * @see
  * [A technique for drawing directed graphs](https://ieeexplore.ieee.org/document/221135)
@@ -25,12 +104,11 @@ import {
  * @param graph A graph object. Must be directed and acyclic.
  * @returns A rank table.
  */
-export default function layerNodes(graph: Graph) {
-  const conjunctNodes = mergeConjunctNodes(graph);
-  const metaWarrantNodes = mergeWarrantStructures(graph);
+export function getNetworkSimplexRanks(graph: LayoutGraph) {
+  const rootNode = connectComponents(graph);
   const treeAndRanks = getFeasibleTree(graph);
   const tree = treeAndRanks.tree;
-  let ranks = treeAndRanks.ranks;
+  const ranks = treeAndRanks.ranks;
   const edgeIterator = new NegativeCutValueEdgeIterator(tree);
   let loopCount = 0;
 
@@ -44,39 +122,216 @@ export default function layerNodes(graph: Graph) {
 
     tree.removeEdge(treeEdge);
     tree.setEdge(nontreeEdge, graph.edge(nontreeEdge));
-    ranks = updateTreeValues(graph, tree, ranks, nontreeEdge);
+    updateTreeValues(graph, tree, ranks, treeEdge, nontreeEdge);
   }
 
-  normalizeRanks(graph, ranks);
-  balanceLayering(graph, ranks);
-  splitWarrantStructures(graph, ranks, metaWarrantNodes);
-  splitConjunctNodes(graph, conjunctNodes, ranks);
-  setYCoordinates(graph, ranks);
+  if (rootNode !== undefined) {
+    graph.removeNode(rootNode);
+    ranks.delete(rootNode);
+  }
 
   return ranks;
 }
 
+/**
+ * Assigns every node to the lowest rank its out-edges allow, i.e., ranks nodes
+ * by the length of the longest path from them to a sink, and returns the ranks.
+ * All sinks share the last rank, and premises are kept close to the claims they
+ * support.
+ *
+ * @remarks
+ * The run time is *O(|V| + |E|)*, which makes this ranker suitable for huge
+ * graphs. The layering is as short as possible, but may be wide and have longer
+ * edges than one found by network simplex.
+ *
+ * @param graph A graph object. Must be directed and acyclic.
+ * @returns A rank table, counting down from 0.
+ */
+export function getLongestPathRanks(graph: LayoutGraph) {
+  const ranks = new RankTable();
+  const outDegrees = new Map<NodeId, number>();
+  const queue: NodeId[] = [];
+
+  graph.nodes().forEach((node) => {
+    const outDegree = (graph.outEdges(node) || []).length;
+
+    outDegrees.set(node, outDegree);
+    if (outDegree === 0) {
+      ranks.set(node, 0);
+      queue.push(node);
+    }
+  });
+
+  for (let index = 0; index < queue.length; index++) {
+    const node = queue[index];
+    const rank = ranks.getRank(node)!;
+
+    (graph.inEdges(node) || []).forEach((edge) => {
+      const { v } = edge;
+      const parentRank = rank - graph.edge(edge).minlen;
+      const outDegree = outDegrees.get(v)! - 1;
+
+      const currentRank = ranks.getRank(v);
+
+      if (currentRank === undefined || parentRank < currentRank)
+        ranks.set(v, parentRank);
+      outDegrees.set(v, outDegree);
+      if (outDegree === 0) queue.push(v);
+    });
+  }
+
+  return ranks;
+}
+
+/**
+ * Assigns all nodes to ranks such that no rank holds more than `maxLayerWidth`
+ * nodes, and returns the ranks.
+ *
+ * @remarks
+ * This is Coffman and Graham's layering algorithm, extended to respect the
+ * minimum lengths of edges. Nodes are first numbered such that nodes whose
+ * predecessors have lower numbers come first. Layers are then filled from the
+ * bottom up, each time with the highest numbered node whose successors have all
+ * been placed far enough below. A new layer is started once the current one is
+ * full. The number of layers is at most *2 - 2 / maxLayerWidth* times the
+ * minimum for unit edge lengths. The run time is *O(|V|²)*.
+ *
+ * @see
+ * [Optimal scheduling for two-processor systems](https://link.springer.com/article/10.1007/BF00288685)
+ *
+ * @param graph A graph object. Must be directed and acyclic.
+ * @param maxLayerWidth The maximum number of nodes per rank.
+ * @returns A rank table, counting down from 0.
+ */
+export function getCoffmanGrahamRanks(
+  graph: LayoutGraph,
+  maxLayerWidth: number
+) {
+  const numbers = getCoffmanGrahamNumbers(graph);
+  const ranks = new RankTable();
+  let layer = 0;
+
+  for (let placed = 0; placed < graph.nodeCount(); placed++) {
+    const candidates = graph.nodes().filter((node) => {
+      if (ranks.getRank(node) !== undefined) return false;
+      return (graph.successors(node) || []).every(
+        (successor) => ranks.getRank(successor) !== undefined
+      );
+    });
+
+    const node = candidates.reduce((node0, node1) =>
+      numbers.get(node1)! > numbers.get(node0)! ? node1 : node0
+    );
+    const minLayer = Math.max(
+      0,
+      ...(graph.outEdges(node) || []).map(
+        (edge) => -ranks.getRank(edge.w)! + graph.edge(edge).minlen
+      )
+    );
+
+    if ((ranks.getNodes(-layer)?.size || 0) >= maxLayerWidth) layer++;
+    layer = Math.max(layer, minLayer);
+    ranks.set(node, -layer);
+  }
+
+  return ranks;
+}
+
+/**
+ * Numbers the nodes for Coffman and Graham's layering algorithm. Each number is
+ * given to the node, among those whose predecessors are all numbered, whose
+ * predecessors' numbers, sorted in decreasing order, are lexicographically
+ * smallest.
+ *
+ * @param graph A graph object. Must be directed and acyclic.
+ * @returns The numbers of the nodes, starting at 1.
+ */
+function getCoffmanGrahamNumbers(graph: LayoutGraph) {
+  const numbers = new Map<NodeId, number>();
+  const getPredecessorNumbers = (node: NodeId) =>
+    (graph.predecessors(node) || [])
+      .map((predecessor) => numbers.get(predecessor)!)
+      .sort((number0, number1) => number1 - number0);
+  const compareNumbers = (numbers0: number[], numbers1: number[]) => {
+    for (let index = 0; index < numbers0.length; index++) {
+      if (index >= numbers1.length) return 1;
+      if (numbers0[index] !== numbers1[index])
+        return numbers0[index] - numbers1[index];
+    }
+    return numbers0.length - numbers1.length;
+  };
+
+  while (numbers.size < graph.nodeCount()) {
+    const candidates = graph
+      .nodes()
+      .filter(
+        (node) =>
+          !numbers.has(node) &&
+          (graph.predecessors(node) || []).every((predecessor) =>
+            numbers.has(predecessor)
+          )
+      )
+      .map((node) => ({
+        node,
+        predecessorNumbers: getPredecessorNumbers(node),
+      }));
+    const { node } = candidates.reduce((candidate0, candidate1) =>
+      compareNumbers(
+        candidate1.predecessorNumbers,
+        candidate0.predecessorNumbers
+      ) < 0
+        ? candidate1
+        : candidate0
+    );
+
+    numbers.set(node, numbers.size + 1);
+  }
+
+  return numbers;
+}
+
 /**
  * Merges warrant structures into a single node with all inedges and outedges
- * of the subnodes. Stores away any labels for later restoration. Returns the
+ * of the subnodes. All warrants (and rebuttals) of the same edge are merged
+ * into the same node, along with any warrants nested within them (warrants of
+ * warrant edges). Stores away any labels for later restoration. Returns the
  * meta warrant nodes.
  *
  * @param graph A grapb object.
  * @returns The meta warrant nodes.
  */
-function mergeWarrantStructures(graph: Graph) {
+function mergeWarrantStructures(graph: LayoutGraph) {
   const metaWarrantNodes: NodeId[] = [];
+  const mergedSinks = new Set<NodeId>();
   const warrantSinks = graph
     .nodes()
     .filter((node) => graph.node(node).isWarrantSink);
+  const rootTargetEdges = new Map<NodeId, Edge>();
 
   warrantSinks.forEach((sink) => {
+    let targetEdge = graph.node(sink).targetEdge;
+
+    while (graph.node(targetEdge.w).isWarrantSink)
+      targetEdge = graph.node(targetEdge.w).targetEdge;
+
+    rootTargetEdges.set(sink, targetEdge);
+  });
+
+  warrantSinks.forEach((sink) => {
+    if (mergedSinks.has(sink)) return;
+
     const originalEdges: EdgeAndLabel[] = [];
-    const subnodeData: { [node: NodeId]: any } = {};
-    const incidentNodes = sink.split(" -> ");
-    const warrantSource = graph.predecessors(sink)![0];
-    const nodes = [sink, ...incidentNodes, warrantSource];
-    const metaWarrantNode = `meta ${sink}`;
+    const subnodeData: SubnodeData = {};
+    const { v: targetSource, w: targetSink } = rootTargetEdges.get(sink)!;
+    const sinks = warrantSinks.filter((otherSink) => {
+      const { v, w } = rootTargetEdges.get(otherSink)!;
+      return v === targetSource && w === targetSink;
+    });
+    const warrantSources = sinks.map((sink) => graph.predecessors(sink)![0]);
+    const nodes = [...sinks, targetSource, targetSink, ...warrantSources];
+    const metaWarrantNode = uniqueNodeId(graph, "meta");
+
+    sinks.forEach((sink) => mergedSinks.add(sink));
 
     graph.setNode(metaWarrantNode, {});
 
@@ -101,7 +356,7 @@ function mergeWarrantStructures(graph: Graph) {
 
         if (nodes.includes(w)) continue;
 
-        if (incidentNodes[1] === v || warrantSource === v)
+        if (targetSink === v || warrantSources.includes(v))
           edgeLabel = { ...edgeLabel, minlen: edgeLabel.minlen + 1 };
 
         graph.setEdge(metaWarrantNode, w, edgeLabel);
@@ -119,42 +374,76 @@ function mergeWarrantStructures(graph: Graph) {
   return metaWarrantNodes;
 }
 
+/**
+ * Connects all components of the graph to a temporary root node with edges of
+ * no weight and no minimum length, so that a spanning tree of the graph can be
+ * found. Returns the root node, if one had to be added.
+ *
+ * @param graph A graph object.
+ * @returns The temporary root node or `undefined`.
+ */
+function connectComponents(graph: LayoutGraph) {
+  const visitedNodes = new Set<NodeId>();
+  const componentRoots: NodeId[] = [];
+
+  graph.nodes().forEach((node) => {
+    if (visitedNodes.has(node)) return;
+
+    const componentNodes = [node];
+
+    visitedNodes.add(node);
+    componentRoots.push(node);
+
+    while (componentNodes.length > 0) {
+      graph.neighbors(componentNodes.pop()!)!.forEach((neighbor) => {
+        if (visitedNodes.has(neighbor)) return;
+        visitedNodes.add(neighbor);
+        componentNodes.push(neighbor);
+      });
+    }
+  });
+
+  if (componentRoots.length < 2) return;
+
+  const rootNode = uniqueNodeId(graph, "root");
+
+  graph.setNode(rootNode, {});
+  componentRoots.forEach((node) => {
+    graph.setEdge(rootNode, node, { weight: 0, minlen: 0 });
+  });
+
+  return rootNode;
+}
+
 /**
  * Sets an initial rank to all nodes, constructs a tight tree, greedily grows
  * the tree till it spans all nodes, sets initial cut values for all edges and
  * returns the tree and the ranks.
  *
- * @param graph A graph object.
+ * @param graph A graph object. Must be connected.
  * @returns The feasible tree and the ranks.
  */
-function getFeasibleTree(graph: Graph) {
+function getFeasibleTree(graph: LayoutGraph) {
   const ranks = setRanks(graph);
-  const tree = getTightTree(graph, ranks);
+  let tree = getTightTree(graph, ranks);
 
   if (graph.edgeCount() === 0) return { tree, ranks };
 
   while (tree.nodeCount() < graph.nodeCount()) {
     const { minSlack, minSlackEdge } = getMinSlack(graph, tree, ranks);
-    const { v, w } = minSlackEdge;
-    let rankDelta: number;
-    let newNode: NodeId;
-
-    if (tree.hasNode(v)) {
-      rankDelta = minSlack;
-      newNode = w;
-    } else {
-      rankDelta = -minSlack;
-      newNode = v;
-    }
 
-    tree.setNode(newNode, graph.node(newNode));
-    tree.setEdge(minSlackEdge, graph.edge(minSlackEdge));
+    if (minSlack === Infinity)
+      throw new LayoutConvergenceError("Could not find a feasible ranking", {
+        nodes: graph.nodes().filter((node) => !tree.hasNode(node)),
+      });
 
-    for (const node of graph.nodes()) {
-      if (node === newNode) continue;
-      const newRank = ranks.getRank(node)! + rankDelta;
-      ranks.set(node, newRank);
+    const rankDelta = tree.hasNode(minSlackEdge.v) ? minSlack : -minSlack;
+
+    for (const node of tree.nodes()) {
+      ranks.set(node, ranks.getRank(node)! + rankDelta);
     }
+
+    tree = getTightTree(graph, ranks);
   }
 
   setCutValues(graph, tree);
@@ -170,7 +459,7 @@ function getFeasibleTree(graph: Graph) {
  * @param nodeList An optional list of nodes to rank.
  * @returns A rank table.
  */
-function setRanks(graph: Graph, nodeList?: NodeId[]) {
+function setRanks(graph: LayoutGraph, nodeList?: NodeId[]) {
   const nodes = nodeList || graph.nodes();
   const ranks = new RankTable();
 
@@ -222,10 +511,10 @@ function setRanks(graph: Graph, nodeList?: NodeId[]) {
  * @param ranks A rank table.
  * @returns A tight tree.
  */
-function getTightTree(graph: Graph, ranks: RankTable) {
-  if (graph.nodeCount() === 0) return new Graph();
+function getTightTree(graph: LayoutGraph, ranks: RankTable) {
+  if (graph.nodeCount() === 0) return createLayoutGraph();
 
-  const tightTree = new Graph();
+  const tightTree = createLayoutGraph();
   const node = graph.nodes()[0];
   const edges = graph.nodeEdges(node) || [];
 
@@ -262,7 +551,7 @@ function getTightTree(graph: Graph, ranks: RankTable) {
  * @param ranks A rank table.
  * @returns The minimum slack and its associated edge.
  */
-function getMinSlack(graph: Graph, tree: Graph, ranks: RankTable) {
+function getMinSlack(graph: LayoutGraph, tree: LayoutGraph, ranks: RankTable) {
   let minSlack = Infinity;
   let minSlackEdge: Edge = { v: "", w: "" };
 
@@ -293,17 +582,17 @@ function getMinSlack(graph: Graph, tree: Graph, ranks: RankTable) {
  * @param graph A graph object.
  * @param tree A spanning tree.
  */
-function setCutValues(graph: Graph, tree: Graph) {
+function setCutValues(graph: LayoutGraph, tree: LayoutGraph) {
   const rootNode = graph.nodes()[0];
-  const nodeStack: NodeId[] = [];
 
-  postorderNumber(tree, rootNode, nodeStack, 1);
-  postorderSetCutValues(graph, tree, rootNode, nodeStack);
+  tree.node(rootNode).parent = undefined;
+  postorderNumber(tree, rootNode, new Set(), 1);
+  postorderSetCutValues(graph, tree, rootNode, new Set());
 }
 
 /**
  * Performs a postorder traversal of the tree and assigns nodes a postorder
- * number and the smallest postorder number in its subtrees.
+ * number, the smallest postorder number in its subtrees and its parent.
  *
  * @param tree A spanning tree.
  * @param node The current node.
@@ -312,25 +601,27 @@ function setCutValues(graph: Graph, tree: Graph) {
  * @returns The next postorder number.
  */
 function postorderNumber(
-  tree: Graph,
+  tree: LayoutGraph,
   node: NodeId,
-  nodeStack: NodeId[],
+  nodeStack: Set<NodeId>,
   number: number
 ) {
-  nodeStack.push(node);
+  nodeStack.add(node);
 
   const neighbors = tree.neighbors(node) || [];
   let nextNumber = number;
 
   neighbors.forEach((neighbor) => {
-    if (!nodeStack.includes(neighbor))
-      nextNumber = postorderNumber(tree, neighbor, nodeStack, nextNumber);
+    if (nodeStack.has(neighbor)) return;
+
+    tree.node(neighbor).parent = node;
+    nextNumber = postorderNumber(tree, neighbor, nodeStack, nextNumber);
   });
 
   tree.node(node).number = nextNumber;
-  tree.node(node).minSubtreeNumber = nextNumber;
+  tree.node(node).minSubtreeNumber = number;
 
-  nodeStack.pop();
+  nodeStack.delete(node);
 
   return nextNumber + 1;
 }
@@ -340,76 +631,63 @@ function postorderNumber(
  * efficient way to set cut values than the naive approach.
  *
  * @param graph A graph object.
- * @param tree A spanning tree.
+ * @param tree A spanning tree. Must have been numbered.
  * @param node The current node.
  * @param nodeStack Nodes on the current path.
  */
 function postorderSetCutValues(
-  graph: Graph,
-  tree: Graph,
+  graph: LayoutGraph,
+  tree: LayoutGraph,
   node: NodeId,
-  nodeStack: NodeId[]
+  nodeStack: Set<NodeId>
 ) {
-  nodeStack.push(node);
-
-  const { number, minSubtreeNumber } = tree.node(node);
-  const isLeafNode = number === minSubtreeNumber;
-  const treeEdges = tree.nodeEdges(node) || [];
-  let parentEdge: Edge | undefined;
-  let cutValue = 0;
+  nodeStack.add(node);
 
-  if (treeEdges.length === 0) {
-    nodeStack.pop();
-    return;
-  }
+  (tree.neighbors(node) || []).forEach((neighbor) => {
+    if (!nodeStack.has(neighbor))
+      postorderSetCutValues(graph, tree, neighbor, nodeStack);
+  });
 
-  if (isLeafNode) {
-    parentEdge = treeEdges[0];
-    const parentIsTail = node === parentEdge.w;
-    const predecessors = graph.predecessors(node) || [];
-    const successors = graph.successors(node) || [];
+  nodeStack.delete(node);
 
-    if (parentIsTail) {
-      cutValue = predecessors.length - successors.length;
-    } else {
-      cutValue = successors.length - predecessors.length;
-    }
-  } else {
-    const neighbors = tree.neighbors(node)!;
+  if (tree.node(node).parent !== undefined) setCutValue(graph, tree, node);
+}
 
-    neighbors.forEach((neighbor) => {
-      if (!nodeStack.includes(neighbor))
-        postorderSetCutValues(graph, tree, neighbor, nodeStack);
-    });
+/**
+ * Sets the cut value of the tree edge between a node and its parent. It is
+ * derived from the weights of the node's edges and the cut values of the edges
+ * to its children, which must have been set.
+ *
+ * @param graph A graph object.
+ * @param tree A spanning tree. Must have been numbered.
+ * @param node A node other than the root of the tree.
+ */
+function setCutValue(graph: LayoutGraph, tree: LayoutGraph, node: NodeId) {
+  const parent: NodeId = tree.node(node).parent;
+  const nodeIsTail = tree.hasEdge(node, parent);
+  const parentEdge = nodeIsTail
+    ? { v: node, w: parent }
+    : { v: parent, w: node };
+  let cutValue: number = graph.edge(parentEdge).weight;
 
-    parentEdge = treeEdges.find(
-      (edge) => tree.edge(edge)?.cutValue === undefined
-    );
+  graph.nodeEdges(node)!.forEach((edge) => {
+    const isOutEdge = edge.v === node;
+    const neighbor = isOutEdge ? edge.w : edge.v;
 
-    if (parentEdge === undefined) {
-      nodeStack.pop();
-      return;
-    }
+    if (neighbor === parent) return;
 
-    const parentNodeType = node === parentEdge.w ? "tail" : "head";
+    const pointsToHead = isOutEdge === nodeIsTail;
+    const weight: number = graph.edge(edge).weight;
 
-    graph.nodeEdges(node)!.forEach((edge) => {
-      const connectedNodeType = node === edge.w ? "tail" : "head";
-      const edgeCutValue = tree.edge(edge)?.cutValue;
+    cutValue += pointsToHead ? weight : -weight;
 
-      if (edgeCutValue) {
-        cutValue += edgeCutValue - 1;
-      } else if (connectedNodeType === parentNodeType) {
-        cutValue++;
-      } else {
-        cutValue--;
-      }
-    });
-  }
+    if (tree.hasEdge(edge)) {
+      const edgeCutValue: number = tree.edge(edge).cutValue;
+      cutValue += pointsToHead ? -edgeCutValue : edgeCutValue;
+    }
+  });
 
   tree.edge(parentEdge).cutValue = cutValue;
-
-  nodeStack.pop();
 }
 
 /**
@@ -417,11 +695,11 @@ function postorderSetCutValues(
  * negative cut value.
  */
 class NegativeCutValueEdgeIterator {
-  private tree: Graph;
+  private tree: LayoutGraph;
   private index: number;
   private lastEdge: Edge | undefined;
 
-  constructor(tree: Graph) {
+  constructor(tree: LayoutGraph) {
     this.tree = tree;
     this.index = 0;
     this.hasNext = this.hasNext.bind(this);
@@ -439,7 +717,8 @@ class NegativeCutValueEdgeIterator {
 
     const edge = this.tree.edges()[this.index];
 
-    if (this.lastEdge === edge) return false;
+    if (this.lastEdge?.v === edge.v && this.lastEdge?.w === edge.w)
+      return false;
     return this.tree.edge(edge).cutValue < 0;
   }
 
@@ -488,36 +767,33 @@ class NegativeCutValueEdgeIterator {
  * @returns A viable non-tree edge with minimal slack.
  */
 function getNontreeMinSlackEdge(
-  graph: Graph,
-  tree: Graph,
+  graph: LayoutGraph,
+  tree: LayoutGraph,
   ranks: RankTable,
   cutEdge: Edge
 ) {
   const { v, w } = cutEdge;
-  const { number: vNumber, minSubtreeNumber: vMinSubtreeNumber } = tree.node(v);
-  const { number: wNumber, minSubtreeNumber: wMinSubtreeNumber } = tree.node(w);
-  const rootNodeIsInHeadComponent = vNumber < wNumber;
-  let checkNodeInTailComponent: (node: NodeId) => boolean;
+  const vLabel = tree.node(v);
+  const wLabel = tree.node(w);
+  const rootNodeIsInHeadComponent = vLabel.number < wLabel.number;
+  const subtreeRootLabel = rootNodeIsInHeadComponent ? vLabel : wLabel;
+  const checkNodeInSubtree = (node: NodeId) => {
+    const nodeNumber = tree.node(node).number;
+    return (
+      subtreeRootLabel.minSubtreeNumber <= nodeNumber &&
+      nodeNumber <= subtreeRootLabel.number
+    );
+  };
+  const checkNodeInTailComponent = (node: NodeId) =>
+    checkNodeInSubtree(node) === rootNodeIsInHeadComponent;
   let minSlack = Infinity;
   let minSlackEdge: Edge | null = null;
 
-  if (rootNodeIsInHeadComponent) {
-    checkNodeInTailComponent = (node) => {
-      const nodeNumber = tree.node(node).number;
-      return vMinSubtreeNumber <= nodeNumber && nodeNumber <= vNumber;
-    };
-  } else {
-    checkNodeInTailComponent = (node) => {
-      const nodeNumber = tree.node(node).number;
-      return wMinSubtreeNumber <= nodeNumber && nodeNumber <= wNumber;
-    };
-  }
-
   for (const edge of graph.edges()) {
-    if (tree.hasEdge(edge)) continue;
-
     const { v: otherV, w: otherW } = edge;
-    const edgeSlack = Math.abs(ranks.getRank(otherV)! - ranks.getRank(otherW)!);
+    const edgeMinLength: number = graph.edge(edge).minlen;
+    const rankDistance = ranks.getRank(otherW)! - ranks.getRank(otherV)!;
+    const edgeSlack = rankDistance - edgeMinLength;
     const vIsInHeadComponent = !checkNodeInTailComponent(otherV);
     const wIsInTailComponent = checkNodeInTailComponent(otherW);
 
@@ -531,104 +807,82 @@ function getNontreeMinSlackEdge(
 }
 
 /**
- * Optimally updates ranks, numberings and cut values with respect to the
- * addition of the `newTreeEdge`.
+ * Updates ranks, numberings and cut values after a tree edge has been swapped
+ * with a non-tree edge. Only the subtree containing both edges is renumbered,
+ * and only the cut values of the tree edges on the cycle that the non-tree
+ * edge closed change. These are set from the ends of the removed edge upwards.
  *
  * @param graph A graph object.
- * @param tree A spanning tree.
+ * @param tree A spanning tree, numbered before the swap.
  * @param ranks A rank table.
- * @param newTreeEdge A newly added tree edge.
- * @returns An updated rank table.
+ * @param treeEdge The edge removed from the tree.
+ * @param nontreeEdge The edge added to the tree.
  */
 function updateTreeValues(
-  graph: Graph,
-  tree: Graph,
+  graph: LayoutGraph,
+  tree: LayoutGraph,
   ranks: RankTable,
-  newTreeEdge: Edge
+  treeEdge: Edge,
+  nontreeEdge: Edge
 ) {
-  const rootNode = graph.nodes()[0];
-  const { v, w } = newTreeEdge;
-  const commonAncestor = getClosestCommonAncestor(tree, v, w)!;
-
-  if (commonAncestor === rootNode) {
-    setCutValues(graph, tree);
-    return setRanks(tree);
-  }
+  const wNumber: number = tree.node(nontreeEdge.w).number;
+  let commonAncestor = nontreeEdge.v;
 
-  updateRanks(tree, ranks, commonAncestor);
+  while (
+    tree.node(commonAncestor).minSubtreeNumber > wNumber ||
+    tree.node(commonAncestor).number < wNumber
+  )
+    commonAncestor = tree.node(commonAncestor).parent;
 
-  const ancestorLabel = tree.node(commonAncestor);
-  const nodeStack = tree.neighbors(commonAncestor)!.filter((neighbor) => {
-    return ancestorLabel.number < tree.node(neighbor).number;
-  });
+  const { parent, minSubtreeNumber } = tree.node(commonAncestor);
 
+  updateRanks(tree, ranks, graph.nodes()[0]);
   postorderNumber(
     tree,
     commonAncestor,
-    nodeStack,
-    ancestorLabel.minSubtreeNumber
+    new Set(parent === undefined ? [] : [parent]),
+    minSubtreeNumber
   );
-  postorderSetCutValues(graph, tree, commonAncestor, nodeStack);
 
-  return ranks;
+  [treeEdge.v, treeEdge.w].forEach((node) => {
+    for (
+      let pathNode = node;
+      pathNode !== commonAncestor;
+      pathNode = tree.node(pathNode).parent
+    )
+      setCutValue(graph, tree, pathNode);
+  });
 }
 
 /**
- * Finds the closest common ancestor of two nodes in a tree. Returns `undefined`
- * if an ancestor somehow cannot be found.
+ * Updates the ranks of all nodes so that every tree edge is tight, keeping the
+ * rank of the root node.
  *
- * @param tree A tree graph object.
- * @param node0 A tree node.
- * @param node1 Another tree node.
- * @returns The closest common ancestor of `node0` and `node1`.
+ * @param tree A spanning tree.
+ * @param ranks A rank table.
+ * @param rootNode The root node of the tree.
  */
-function getClosestCommonAncestor(tree: Graph, node0: NodeId, node1: NodeId) {
-  const node0Number = tree.node(node0).number;
-  const node1Number = tree.node(node1).number;
-  const lowestNumber = Math.min(node0Number, node1Number);
-  const highestNumber = Math.max(node0Number, node1Number);
-  const nodes = tree.neighbors(node0)!;
-
-  for (const node of nodes) {
-    const { number, minSubtreeNumber } = tree.node(node);
+function updateRanks(tree: LayoutGraph, ranks: RankTable, rootNode: NodeId) {
+  const visitedNodes = new Set([rootNode]);
+  const nodes = [rootNode];
 
-    if (minSubtreeNumber <= highestNumber && lowestNumber <= number)
-      return node;
+  while (nodes.length > 0) {
+    const node = nodes.pop()!;
+    const rank = ranks.getRank(node)!;
 
     tree.neighbors(node)!.forEach((neighbor) => {
-      if (!nodes.includes(neighbor)) nodes.push(neighbor);
-    });
-  }
-}
+      if (visitedNodes.has(neighbor)) return;
 
-/**
- * Updates the ranks of all nodes in the subtree rooted in `subtreeRoot`.
- *
- * @param tree A tree graph object.
- * @param ranks A rank table.
- * @param subtreeRoot The node whose subtree must be updated.
- */
-function updateRanks(tree: Graph, ranks: RankTable, subtreeRoot: NodeId) {
-  const subtreeRootNumber = tree.node(subtreeRoot).number;
-  const subtreeNodes: NodeId[] = tree
-    .neighbors(subtreeRoot)!
-    .filter((neighbor) => tree.node(neighbor).number < subtreeRootNumber);
-
-  for (const node of subtreeNodes) {
-    const nodeNeighbors = tree.neighbors(node)!;
-    const nodeNumber = tree.node(node).number;
+      const isOutEdge = tree.hasEdge(node, neighbor);
+      const edgeMinLength: number = isOutEdge
+        ? tree.edge(node, neighbor).minlen
+        : tree.edge(neighbor, node).minlen;
 
-    nodeNeighbors.forEach((neighbor) => {
-      const neighborNumber = tree.node(neighbor).number;
-      if (neighborNumber < nodeNumber) subtreeNodes.push(neighbor);
+      ranks.set(neighbor, rank + (isOutEdge ? edgeMinLength : -edgeMinLength));
+      visitedNodes.add(neighbor);
+      nodes.push(neighbor);
     });
   }
-
-  const newRanks = setRanks(tree, subtreeNodes);
-
-  subtreeNodes.forEach((node) => {
-    ranks.set(node, newRanks.getRank(node)!);
-  });
 }
 
 /**
@@ -637,7 +891,7 @@ function updateRanks(tree: Graph, ranks: RankTable, subtreeRoot: NodeId) {
  * @param graph A graph object.
  * @param ranks A rank table.
  */
-function normalizeRanks(graph: Graph, ranks: RankTable) {
+function normalizeRanks(graph: LayoutGraph, ranks: RankTable) {
   const smallestRank = ranks.getMinRankIndex();
 
   if (smallestRank !== 0)
@@ -648,114 +902,284 @@ function normalizeRanks(graph: Graph, ranks: RankTable) {
 }
 
 /**
- * Balances the layering by moving nodes with equal in and out degrees and
- * multiple viable ranks to the one with the least number of nodes.
+ * Balances the layering by moving nodes to narrower ranks, as chosen with the
+ * `layerBalancing` option of the graph label. Only nodes whose in-edges weigh
+ * as much as their out-edges are moved, and only to ranks allowed by the
+ * minimum lengths of their edges, so the total weighted edge length minimised
+ * by network simplex stays the same.
+ *
+ * @remarks
+ * With `"width"` (the default), the width of a rank is the total width of its
+ * nodes plus `nodesep` per node. Merged nodes count with the total width of
+ * their subnodes. With `"count"`, the width of a rank is its number of nodes,
+ * and with `"none"`, nothing is moved.
+ *
+ * Each node is moved to the narrowest rank it can be placed on, but only if
+ * that rank is narrower with the node than its current rank is with it. Every
+ * move thus makes the widths of the ranks more even, and the nodes are moved
+ * until none of them can be. Ranks that are full with respect to the
+ * `maxLayerWidth` of the Coffman–Graham ranker are not moved to.
  *
  * @param graph A graph object.
  * @param ranks A rank table.
  */
-function balanceLayering(graph: Graph, ranks: RankTable) {
-  for (const node of graph.nodes()) {
-    const inDegree = (graph.inEdges(node) || []).length;
-    const outDegree = (graph.outEdges(node) || []).length;
+function balanceLayering(graph: LayoutGraph, ranks: RankTable) {
+  const { layerBalancing = "width", nodesep = 0, ranker } = graph.graph() || {};
+
+  if (layerBalancing === "none") return;
+
+  const maxNodeCount =
+    ranker === "coffman-graham" ? getMaxLayerWidth(graph) : Infinity;
+  const getWidth = (node: NodeId) =>
+    layerBalancing === "count" ? 1 : getNodeWidth(graph.node(node)) + nodesep;
+  const getWeight = (edges: Edge[] | void) =>
+    (edges || []).reduce((sum, edge) => sum + graph.edge(edge).weight, 0);
+  const rankWidths = new Map<number, number>();
+  const movableNodes = graph
+    .nodes()
+    .filter(
+      (node) =>
+        getWidth(node) > 0 &&
+        getWeight(graph.inEdges(node)) === getWeight(graph.outEdges(node))
+    );
+  let nodeWasMoved = true;
 
-    if (inDegree !== outDegree) continue;
+  graph.nodes().forEach((node) => {
+    const rank = ranks.getRank(node)!;
+    rankWidths.set(rank, (rankWidths.get(rank) || 0) + getWidth(node));
+  });
 
-    const parentRanks = (graph.predecessors(node) || []).map(
-      (parent) => ranks.getRank(parent)!
-    );
-    const childRanks = (graph.successors(node) || []).map(
-      (child) => ranks.getRank(child)!
-    );
-    const maxParentRank = Math.max(...parentRanks);
-    const minChildRank = Math.min(...childRanks);
-    const nodeCanBeMoved = minChildRank - maxParentRank > 2;
+  while (nodeWasMoved) {
+    nodeWasMoved = false;
 
-    if (nodeCanBeMoved) {
-      const firstViableRank = parentRanks.length > 0 ? maxParentRank + 1 : 0;
+    movableNodes.forEach((node) => {
+      const rank = ranks.getRank(node)!;
+      const width = getWidth(node);
+      const minRanks = (graph.inEdges(node) || []).map(
+        (edge) => ranks.getRank(edge.v)! + graph.edge(edge).minlen
+      );
+      const maxRanks = (graph.outEdges(node) || []).map(
+        (edge) => ranks.getRank(edge.w)! - graph.edge(edge).minlen
+      );
+      const firstViableRank =
+        minRanks.length > 0 ? Math.max(...minRanks) : ranks.getMinRankIndex();
       const lastViableRank =
-        childRanks.length > 0 ? minChildRank - 1 : ranks.getMaxRankIndex();
-      let minRank = ranks.getRank(node)!;
-      let minRankSize = ranks.getNodes(minRank)!.size;
+        maxRanks.length > 0 ? Math.min(...maxRanks) : ranks.getMaxRankIndex();
+      let newRank = rank;
+      let newRankWidth = rankWidths.get(rank)! - width;
 
       for (
         let rankIndex = firstViableRank;
         rankIndex <= lastViableRank;
         rankIndex++
       ) {
-        const rankSize = ranks.getNodes(rankIndex)!.size;
+        const rankWidth = rankWidths.get(rankIndex) || 0;
+        const rankIsFull =
+          (ranks.getNodes(rankIndex)?.size || 0) >= maxNodeCount;
 
-        if (rankSize < minRankSize) {
-          minRank = rankIndex;
-          minRankSize = rankSize;
+        if (rankWidth < newRankWidth && !rankIsFull) {
+          newRank = rankIndex;
+          newRankWidth = rankWidth;
         }
       }
 
-      ranks.set(node, minRank);
-    }
+      if (newRank === rank) return;
+
+      rankWidths.set(rank, rankWidths.get(rank)! - width);
+      rankWidths.set(newRank, newRankWidth + width);
+      ranks.set(node, newRank);
+      nodeWasMoved = true;
+    });
   }
 }
 
+/**
+ * Gets the width of a node, which is the total width of the subnodes of merged
+ * nodes.
+ *
+ * @param nodeLabel The label of a node.
+ * @returns The width of the node.
+ */
+function getNodeWidth(nodeLabel: LayoutNodeLabel | undefined): number {
+  const { subnodeData, width } = nodeLabel || {};
+
+  if (!subnodeData) return width || 0;
+
+  return Object.values(subnodeData).reduce<number>(
+    (sum, subnodeLabel) => sum + getNodeWidth(subnodeLabel),
+    0
+  );
+}
+
 /**
  * Splits warrant structures by restoring the subnodes and their edges. Also
- * adjusts ranks of any successors.
+ * adjusts ranks of any successors. Warrants of ordinary edges are placed
+ * between the ranks of the edge. Nested warrants are placed between their
+ * parent warrant and the next rank, nested rebuttals between their parent and
+ * the previous rank, so that they end up on opposite sides of the parent
+ * warrant edge. A single warrant is placed halfway, while several warrants on
+ * the same side of an edge are spread evenly, so that the edges of the outer
+ * ones pass the inner ones instead of running across them.
  *
  * @param graph A graph object.
  * @param ranks A rank table.
  * @param metaWarrantNodes A list of meta warrant nodes.
  */
 function splitWarrantStructures(
-  graph: Graph,
+  graph: LayoutGraph,
   ranks: RankTable,
   metaWarrantNodes: NodeId[]
 ) {
-  if (!metaWarrantNodes.length) return;
-
-  const warrantStructureNodes: NodeId[] = [];
-  let sink = "";
-  let warrantSink = "";
-  let warrantSource = "";
-
   metaWarrantNodes.forEach((node) => {
     const { subnodeData, originalEdges } = graph.node(node);
+    const rank = ranks.getRank(node)!;
+    const warrantSinks: NodeId[] = [];
+    const rankIntervals = new Map<NodeId, [number, number]>();
+    let targetSink = "";
 
     Object.keys(subnodeData).forEach((subnode) => {
       graph.setNode(subnode, subnodeData[subnode]);
-      ranks.set(subnode, ranks.getRank(node)!);
-      warrantStructureNodes.push(subnode);
+      ranks.set(subnode, rank);
 
-      if (subnodeData[subnode].isWarrantSink) {
-        sink = subnode.split(" -> ")[1];
-        warrantSink = subnode;
-      }
+      if (subnodeData[subnode].isWarrantSink) warrantSinks.push(subnode);
     });
 
     originalEdges.forEach((edge: EdgeAndLabel) => {
       const { v, w, label, name } = edge;
-      if (warrantSink === w) warrantSource = v;
       graph.setEdge(v, w, label, name);
     });
 
     graph.removeNode(node);
     ranks.delete(node);
+
+    warrantSinks.sort(
+      (sink0, sink1) =>
+        getWarrantDepth(graph, sink0) - getWarrantDepth(graph, sink1)
+    );
+    warrantSinks.forEach((warrantSink) => {
+      const warrantSource = graph.predecessors(warrantSink)![0];
+      const { targetEdge, isRebuttalSink } = graph.node(warrantSink);
+      const siblings = warrantSinks.filter((otherSink) => {
+        const otherLabel = graph.node(otherSink);
+
+        return (
+          !!otherLabel.isRebuttalSink === !!isRebuttalSink &&
+          otherLabel.targetEdge.v === targetEdge.v &&
+          otherLabel.targetEdge.w === targetEdge.w
+        );
+      });
+      let firstRank = rank;
+      let lastRank = rank + 1;
+
+      if (graph.node(targetEdge.w).isWarrantSink) {
+        const [lowerRank, upperRank] = rankIntervals.get(targetEdge.v)!;
+        const parentRank = ranks.getRank(targetEdge.v)!;
+
+        [firstRank, lastRank] = isRebuttalSink
+          ? [lowerRank, parentRank]
+          : [parentRank, upperRank];
+        rankIntervals.set(warrantSource, [firstRank, lastRank]);
+      } else {
+        targetSink = targetEdge.w;
+        rankIntervals.set(warrantSource, [rank, rank + 1]);
+      }
+
+      const warrantRank =
+        firstRank +
+        ((siblings.indexOf(warrantSink) + 1) * (lastRank - firstRank)) /
+          (siblings.length + 1);
+
+      ranks.set(warrantSink, warrantRank);
+      ranks.set(warrantSource, warrantRank);
+    });
+    ranks.set(targetSink, rank + 1);
   });
+}
 
-  ranks.set(sink, ranks.getRank(sink)! + 1);
-  ranks.set(warrantSink, ranks.getRank(warrantSink)! + 0.5);
-  ranks.set(warrantSource, ranks.getRank(warrantSource)! + 0.5);
+/**
+ * Assigns a label rank to each labelled edge that spans at least two ranks.
+ * This is the rank on which the label of the edge will be placed.
+ *
+ * @param graph A graph object.
+ * @param ranks A rank table.
+ */
+function setLabelRanks(graph: LayoutGraph, ranks: RankTable) {
+  graph.edges().forEach((edge) => {
+    const edgeLabel = graph.edge(edge);
+    const vRank = ranks.getRank(edge.v)!;
+    const wRank = ranks.getRank(edge.w)!;
+    const edgeHasLabel = edgeLabel?.width > 0 || edgeLabel?.height > 0;
+
+    if (!edgeHasLabel || !Number.isInteger(vRank) || wRank - vRank < 2) return;
+
+    edgeLabel.labelRank = vRank + Math.floor((wRank - vRank) / 2);
+  });
 }
 
 /**
- * Assigns y-coordinates to all nodes based on their ranks.
+ * Assigns y-coordinates to all nodes based on their ranks, and sets the height
+ * property of the graph. Each layer is as tall as its tallest node, edge label
+ * or row of backings placed below a warrant on the previous, intermediate
+ * (fractional) rank, and `ranksep` is the gap between the bottom of one layer
+ * and the top of the next. Nodes on intermediate ranks are placed
+ * proportionally between their neighbouring layers.
  *
  * @param graph A graph object.
  * @param ranks A rank table.
  */
-function setYCoordinates(graph: Graph, ranks: RankTable) {
+function setYCoordinates(graph: LayoutGraph, ranks: RankTable) {
+  if (graph.nodeCount() === 0) {
+    if (graph.graph()) graph.graph().height = 0;
+    return;
+  }
+
+  const maxRank = Math.floor(ranks.getMaxRankIndex());
+  const labelHeights: number[] = [];
+  const backingHeights: number[] = [];
+  const layerYs: number[] = [];
+  let layerTop = 0;
+
+  graph.edges().forEach((edge) => {
+    const { labelRank, height } = graph.edge(edge) || {};
+
+    if (labelRank !== undefined)
+      labelHeights[labelRank] = Math.max(labelHeights[labelRank] || 0, height);
+  });
+
+  graph.nodes().forEach((node) => {
+    const { backingSize } = graph.node(node);
+    const backingRank = Math.ceil(ranks.getRank(node)!);
+
+    if (backingSize)
+      backingHeights[backingRank] = Math.max(
+        backingHeights[backingRank] || 0,
+        backingSize.height
+      );
+  });
+
+  for (let rank = 0; rank <= maxRank; rank++) {
+    const layerNodes = [...(ranks.getNodes(rank) || [])];
+    const layerHeight = Math.max(
+      labelHeights[rank] || 0,
+      backingHeights[rank] || 0,
+      ...layerNodes.map((node) => {
+        const { height, isConjunctNode } = graph.node(node);
+        return isConjunctNode ? 0 : height || 0;
+      })
+    );
+
+    layerYs[rank] = layerTop + layerHeight / 2;
+    layerTop += layerHeight + graph.graph().ranksep;
+  }
+
+  graph.graph().height = Math.max(layerTop - graph.graph().ranksep, 0);
+
   graph.nodes().forEach((node) => {
     const rank = ranks.getRank(node)!;
-    const y = rank * graph.graph().ranksep;
+    const lowerRank = Math.floor(rank);
+    const lowerY = layerYs[lowerRank];
+    const upperY = layerYs[Math.ceil(rank)] ?? lowerY;
 
-    graph.node(node).y = y;
+    graph.node(node).y = lowerY + (rank - lowerRank) * (upperY - lowerY);
   });
 }
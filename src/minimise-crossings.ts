@@ -1,6 +1,14 @@
 import { Edge } from "graphlib";
-import Graph from "./graph.js";
-import { NodeId, RankTable, buildSimpleGraph } from "./utils.js";
+import { LayoutEdgeLabel, LayoutGraph, LayoutNodeLabel } from "./graph.js";
+import {
+  CrossingMinimisation,
+  NodeId,
+  RankTable,
+  buildSimpleGraph,
+  createLayoutGraph,
+  getWarrantDepth,
+  uniqueNodeId,
+} from "./utils.js";
 
 /**
  * Tries to minimise the number of edge crossings by reordering nodes within
@@ -24,79 +32,137 @@ import { NodeId, RankTable, buildSimpleGraph } from "./utils.js";
  * nodes of the mutable layer and *V_s* is the nodes of the smaller layer of the
  * two.
  *
+ * The `crossingMinimisation` option can instead sort nodes by the median or the
+ * weighted median of their neighbors' positions, within the same constrained
+ * framework. These heuristics are followed by Gansner et al.'s transposition
+ * pass after every sweep, which swaps adjacent nodes as long as that removes
+ * crossings. This is slower, but tends to leave fewer crossings in densely
+ * connected graphs.
+ *
  * @see
  * [A Fast and Simple Heuristic for Constrained Two-Level Crossing Reduction](https://link.springer.com/chapter/10.1007/978-3-540-31843-9_22)
+ * @see
+ * [A Technique for Drawing Directed Graphs](https://ieeexplore.ieee.org/document/221135)
  *
  * @param graph A graph object. Must be directed and acyclic.
  * @param ranks A ranking of the nodes in the graph.
  * @returns A node matrix.
  */
-export default function minimiseCrossings(graph: Graph, ranks: RankTable) {
+export default function minimiseCrossings(
+  graph: LayoutGraph,
+  ranks: RankTable
+) {
   const constraintGraph = preprocessDataStructures(graph, ranks);
   const graphMatrix = readRankTable(ranks);
+  const heuristic: CrossingMinimisation =
+    graph.graph()?.crossingMinimisation ?? "barycenter";
+  satisfyConstraints(constraintGraph, graphMatrix);
+  if (heuristic !== "barycenter")
+    transposeLayers(graph, constraintGraph, graphMatrix);
   let crossingCount = countTotalCrossings(graph, graphMatrix);
+  let bestGraphMatrix = graphMatrix.map((layer) => [...layer]);
   let loopCount = 0;
 
   while (crossingCount > 0 && loopCount < graph.graph().maxcrossingloops) {
     loopCount++;
 
-    sortLayers(graph, constraintGraph, graphMatrix);
+    sortLayers(graph, constraintGraph, graphMatrix, heuristic);
+    if (heuristic !== "barycenter")
+      transposeLayers(graph, constraintGraph, graphMatrix);
 
     const newCrossingCount = countTotalCrossings(graph, graphMatrix);
     if (newCrossingCount >= crossingCount) break;
     crossingCount = newCrossingCount;
+    bestGraphMatrix = graphMatrix.map((layer) => [...layer]);
   }
 
-  return graphMatrix;
+  return bestGraphMatrix;
 }
 
 /**
  * Splits non-tight edges, and creates and returns a constraint graph based on
- * conjunct nodes and warrant structures.
+ * conjunct nodes, warrant structures and, if enabled, edge polarities. Long
+ * edges are split before conjunct nodes are handled so that all subnodes share
+ * the dummy nodes (and any edge label) of their conjunct edge.
  *
  * @param graph A graph object.
  * @param ranks A rank table.
  * @returns A constraint graph.
  */
-function preprocessDataStructures(graph: Graph, ranks: RankTable) {
-  const constraintGraph = new Graph();
+function preprocessDataStructures(graph: LayoutGraph, ranks: RankTable) {
+  const constraintGraph = createLayoutGraph();
 
   handleWarrantStructures(graph, ranks, constraintGraph);
-  handleConjunctNodes(graph, ranks, constraintGraph);
   splitLongEdges(graph, ranks);
+  handleConjunctNodes(graph, ranks, constraintGraph);
+  const attackSide = graph.graph()?.attackSide;
+  if (attackSide) handleEdgePolarities(graph, attackSide, constraintGraph);
 
   return constraintGraph;
 }
 
 /**
  * Creates dummy nodes for warrant structures, spreads them out on the
- * appropriate layers and constrains them to stay clustered.
+ * appropriate layers and constrains them to stay clustered. Warrants are kept
+ * to the right of the edge they target, rebuttals to its left. Several warrants
+ * of the same edge are placed side by side, outwards from the edge in the order
+ * they were added. Warrants of warrant edges are kept between their parent
+ * warrant and the edge it targets. The dummy sinks are wide enough for the
+ * backings placed below their warrants. The warrant sources and sinks are
+ * removed till {@link finaliseWarrantPositions}.
  *
  * @param graph A graph object.
  * @param ranks A rank table.
  * @param constraintGraph A constraint graph.
  */
 function handleWarrantStructures(
-  graph: Graph,
+  graph: LayoutGraph,
   ranks: RankTable,
-  constraintGraph: Graph
+  constraintGraph: LayoutGraph
 ) {
   const warrantSinks = graph
     .nodes()
-    .filter((node) => graph.node(node).isWarrantSink);
+    .filter((node) => graph.node(node).isWarrantSink)
+    .map((sink) => ({ sink, depth: getWarrantDepth(graph, sink) }))
+    .sort((sink0, sink1) => sink0.depth - sink1.depth);
+  const dummyNodes = new Map<
+    NodeId,
+    {
+      dummySource: NodeId;
+      dummySink: NodeId;
+      isRebuttal: boolean;
+      targetEdge: Edge;
+    }
+  >();
 
-  warrantSinks.forEach((sink) => {
+  warrantSinks.forEach(({ sink, depth }) => {
     const warrantSource = graph.predecessors(sink)![0];
     const warrantSourceLabel = graph.node(warrantSource);
-    const dummySource = `start ${warrantSource}`;
-    const dummySink = `end ${warrantSource}`;
-    const [simpleSource, simpleSink] = sink.split(" -> ");
+    const sinkLabel = graph.node(sink);
+    const dummySource = uniqueNodeId(graph, "warrant-start");
+    const dummySink = uniqueNodeId(graph, "warrant-end");
+    const { v, w } = sinkLabel.targetEdge;
+    const parent = depth > 0 ? dummyNodes.get(w) : undefined;
+    const simpleSource = parent ? parent.dummySource : v;
+    const simpleSink = parent ? parent.dummySink : w;
     const rankNumber = ranks.getRank(simpleSource)!;
+    const isRebuttal = !!sinkLabel.isRebuttalSink;
+    const sibling = [...dummyNodes.values()]
+      .reverse()
+      .find(
+        (otherDummyNodes) =>
+          otherDummyNodes.isRebuttal === isRebuttal &&
+          otherDummyNodes.targetEdge.v === v &&
+          otherDummyNodes.targetEdge.w === w
+      );
 
     graph.setNode(dummySource, {
       warrantNodes: {
         source: { id: warrantSource, label: warrantSourceLabel },
-        sink: { id: sink, label: graph.node(sink) },
+        sink: { id: sink, label: sinkLabel },
+        edgeLabel: graph.edge(warrantSource, sink),
+        dummySink,
+        depth,
       },
       y: graph.node(simpleSource).y,
       width: warrantSourceLabel.width,
@@ -104,14 +170,46 @@ function handleWarrantStructures(
     });
     graph.setNode(dummySink, {
       y: graph.node(simpleSink).y,
-      width: warrantSourceLabel.width,
+      width: Math.max(
+        warrantSourceLabel.width,
+        warrantSourceLabel.backingSize?.width ?? 0
+      ),
       isWarrantDummySink: true,
     });
     ranks.set(dummySource, rankNumber);
     ranks.set(dummySink, rankNumber + 1);
+    dummyNodes.set(sink, {
+      dummySource,
+      dummySink,
+      isRebuttal,
+      targetEdge: { v, w },
+    });
 
-    constraintGraph.setEdge(simpleSource, dummySource);
-    constraintGraph.setEdge(simpleSink, dummySink);
+    if (parent) {
+      constrainNestedWarrant(
+        constraintGraph,
+        simpleSource,
+        dummySource,
+        parent.isRebuttal
+      );
+      constrainNestedWarrant(
+        constraintGraph,
+        simpleSink,
+        dummySink,
+        parent.isRebuttal
+      );
+    } else {
+      const innerSource = sibling ? sibling.dummySource : simpleSource;
+      const innerSink = sibling ? sibling.dummySink : simpleSink;
+
+      if (isRebuttal) {
+        constraintGraph.setEdge(dummySource, innerSource);
+        constraintGraph.setEdge(dummySink, innerSink);
+      } else {
+        constraintGraph.setEdge(innerSource, dummySource);
+        constraintGraph.setEdge(innerSink, dummySink);
+      }
+    }
 
     const warrantSourceInEdges = graph.inEdges(warrantSource) || [];
     const warrantSourceOutEdges = graph.outEdges(warrantSource) || [];
@@ -126,9 +224,41 @@ function handleWarrantStructures(
     }
 
     graph.removeNode(warrantSource);
+    graph.removeNode(sink);
+    ranks.delete(warrantSource);
+    ranks.delete(sink);
   });
 }
 
+/**
+ * Constrains the dummy node of a nested warrant to stay between the dummy node
+ * of its parent warrant and the nodes on the inner side of that dummy node,
+ * i.e., the side facing the edge targeted by the parent warrant.
+ *
+ * @param constraintGraph A constraint graph.
+ * @param parentDummyNode A dummy node of the parent warrant.
+ * @param dummyNode The dummy node of the nested warrant on the same layer.
+ * @param isRebuttal Whether the parent warrant is a rebuttal.
+ */
+function constrainNestedWarrant(
+  constraintGraph: LayoutGraph,
+  parentDummyNode: NodeId,
+  dummyNode: NodeId,
+  isRebuttal: boolean
+) {
+  if (isRebuttal) {
+    constraintGraph.successors(parentDummyNode)!.forEach((innerNode) => {
+      constraintGraph.setEdge(dummyNode, innerNode);
+    });
+    constraintGraph.setEdge(parentDummyNode, dummyNode);
+  } else {
+    constraintGraph.predecessors(parentDummyNode)!.forEach((innerNode) => {
+      constraintGraph.setEdge(innerNode, dummyNode);
+    });
+    constraintGraph.setEdge(dummyNode, parentDummyNode);
+  }
+}
+
 /**
  * Creates two dummy nodes for each conjunct node to act as delimiters within
  * their layer, and constrains all subnodes to be between them.
@@ -138,9 +268,9 @@ function handleWarrantStructures(
  * @param constraintGraph A constraint graph.
  */
 function handleConjunctNodes(
-  graph: Graph,
+  graph: LayoutGraph,
   ranks: RankTable,
-  constraintGraph: Graph
+  constraintGraph: LayoutGraph
 ) {
   const conjunctNodes = graph
     .nodes()
@@ -148,27 +278,32 @@ function handleConjunctNodes(
 
   conjunctNodes.forEach((node) => {
     const nodeLabel = graph.node(node);
-    const startDummyNodeId = `start-${node}`;
-    const endDummyNodeId = `end-${node}`;
+    const startDummyNodeId = uniqueNodeId(graph, "conjunct-start");
+    const endDummyNodeId = uniqueNodeId(graph, "conjunct-end");
     const rankNumber = ranks.getRank(node)!;
+    const children = graph.children(node);
+    const conjunctEdge = graph.outEdges(node)![0];
+    const conjunctTarget = conjunctEdge.w;
+    const conjunctEdgeLabel = graph.edge(conjunctEdge);
 
     graph.setNode(startDummyNodeId, {
-      conjunctNode: { id: node, label: nodeLabel },
+      conjunctNode: {
+        id: node,
+        label: nodeLabel,
+        edgeLabel: conjunctEdgeLabel,
+        target: conjunctTarget,
+      },
       isConjunctDummyNode: true,
     });
     graph.setNode(endDummyNodeId, { isConjunctDummyNode: true });
     ranks.set(startDummyNodeId, rankNumber);
     ranks.set(endDummyNodeId, rankNumber);
 
-    const children = graph.children(node);
-    const conjunctEdge = graph.outEdges(node)![0];
-    const conjunctTarget = conjunctEdge.w;
-    const conjunctEdgeLabel = graph.edge(conjunctEdge);
-
     children.forEach((child) => {
       graph.setEdge(child, conjunctTarget, {
         conjunctEdgeLabel,
         isConjunctEdge: true,
+        weight: conjunctEdgeLabel?.weight,
       });
       constraintGraph.setEdge(startDummyNodeId, child);
       constraintGraph.setEdge(child, endDummyNodeId);
@@ -177,44 +312,140 @@ function handleConjunctNodes(
     const conjunctHasWarrantEdge = constraintGraph.hasNode(node);
 
     if (conjunctHasWarrantEdge) {
-      const warrantDummySource = constraintGraph.successors(node)![0];
-
-      constraintGraph.setEdge(endDummyNodeId, warrantDummySource);
+      constraintGraph.successors(node)!.forEach((warrantDummyNode) => {
+        constraintGraph.setEdge(endDummyNodeId, warrantDummyNode);
+      });
+      constraintGraph.predecessors(node)!.forEach((rebuttalDummyNode) => {
+        constraintGraph.setEdge(rebuttalDummyNode, startDummyNodeId);
+      });
       constraintGraph.removeNode(node);
     }
 
     graph.removeNode(node);
+    ranks.delete(node);
   });
 }
 
+/**
+ * Constrains the sources of attacking edges to stay on one side of the sources
+ * of supporting edges with the same target, so that objections and supports
+ * below a conclusion are visually separated. Constraints that would contradict
+ * existing ones are skipped.
+ *
+ * @param graph A graph object.
+ * @param attackSide The side on which to place the sources of attacks.
+ * @param constraintGraph A constraint graph.
+ */
+function handleEdgePolarities(
+  graph: LayoutGraph,
+  attackSide: "left" | "right",
+  constraintGraph: LayoutGraph
+) {
+  graph.nodes().forEach((node) => {
+    const inEdges = graph.inEdges(node) || [];
+    const attackers = inEdges
+      .filter((edge) => getEdgePolarity(graph, edge) === "attack")
+      .map((edge) => edge.v);
+    const supporters = inEdges
+      .filter((edge) => getEdgePolarity(graph, edge) === "support")
+      .map((edge) => edge.v);
+
+    attackers.forEach((attacker) => {
+      supporters.forEach((supporter) => {
+        const [left, right] =
+          attackSide === "right"
+            ? [supporter, attacker]
+            : [attacker, supporter];
+
+        if (!hasPath(constraintGraph, right, left))
+          constraintGraph.setEdge(left, right);
+      });
+    });
+  });
+}
+
+/**
+ * Gets the polarity of an edge in a layout graph, looking through the edges
+ * that were created for long edges and conjunct nodes.
+ *
+ * @param graph A graph object.
+ * @param edge An edge.
+ * @returns The polarity of the original edge.
+ */
+function getEdgePolarity(graph: LayoutGraph, edge: Edge) {
+  const edgeLabel = graph.edge(edge);
+
+  return (
+    edgeLabel?.polarity ??
+    edgeLabel?.conjunctEdgeLabel?.polarity ??
+    graph.node(edge.v).edgeData?.polarity ??
+    "support"
+  );
+}
+
+/**
+ * Checks whether a path exists from one node to another in a graph.
+ *
+ * @param graph A graph object.
+ * @param source The node to start from.
+ * @param target The node to find.
+ * @returns `true` if `target` can be reached from `source`.
+ */
+function hasPath(graph: LayoutGraph, source: NodeId, target: NodeId) {
+  const visited = new Set<NodeId>();
+  const stack = [source];
+
+  while (stack.length) {
+    const node = stack.pop()!;
+
+    if (node === target) return true;
+    if (visited.has(node)) continue;
+
+    visited.add(node);
+    stack.push(...(graph.successors(node) || []));
+  }
+
+  return false;
+}
+
 /**
  * Splits long (multi-layer) edges into a series of short (single-layer) edges
  * by inserting dummy nodes at each rank between the source and target of the
- * edge.
+ * edge. The dummy node on the label rank of a labelled edge is given the size
+ * of the label, so that space is reserved for it.
  *
  * @param graph A graph object.
  * @param ranks A rank table.
  */
-function splitLongEdges(graph: Graph, ranks: RankTable) {
+function splitLongEdges(graph: LayoutGraph, ranks: RankTable) {
   graph.edges().forEach((edge) => {
     const { v, w } = edge;
     const vRank = ranks.getRank(v)!;
     const wRank = ranks.getRank(w)!;
     const vY = graph.node(v)!.y;
+    const wY = graph.node(w)!.y;
     const edgeData = graph.edge(edge)!;
     let dummyNodeIndex = 0;
     let previousNodeId = v;
 
     for (let rankIndex = vRank + 1; rankIndex < wRank; rankIndex++) {
-      const dummyNodeId = `${v}-${w}-${dummyNodeIndex}`;
-      const dummyNodeY = vY + (dummyNodeIndex + 1) * graph.graph().ranksep;
+      const dummyNodeId = uniqueNodeId(graph, "dummy");
+      const layerNode = [...(ranks.getNodes(rankIndex) || [])].find(
+        (node) => graph.node(node)?.y !== undefined
+      );
+      const dummyNodeY = layerNode
+        ? graph.node(layerNode).y
+        : vY + ((rankIndex - vRank) * (wY - vY)) / (wRank - vRank);
 
       graph.setNode(dummyNodeId, {
         isDummyNode: true,
         y: dummyNodeY,
+        width: 0,
         edgeData,
       });
-      graph.setEdge(previousNodeId, dummyNodeId);
+      if (rankIndex === edgeData.labelRank)
+        setLabelDummyNodeSize(graph.node(dummyNodeId), edgeData);
+      graph.setEdge(previousNodeId, dummyNodeId, { weight: edgeData.weight });
       ranks.set(dummyNodeId, rankIndex);
 
       dummyNodeIndex++;
@@ -222,12 +453,32 @@ function splitLongEdges(graph: Graph, ranks: RankTable) {
     }
 
     if (dummyNodeIndex > 0) {
-      graph.setEdge(previousNodeId, w);
+      graph.setEdge(previousNodeId, w, { weight: edgeData.weight });
       graph.removeEdge(edge);
     }
   });
 }
 
+/**
+ * Turns a long edge dummy node into a label dummy node with a size that fits
+ * the edge label. If the label is to be placed beside the edge, the dummy node
+ * is made wide enough to fit it on either side, including its offset.
+ *
+ * @param dummyNodeLabel The label of a long edge dummy node.
+ * @param edgeData The label of the original edge.
+ */
+function setLabelDummyNodeSize(
+  dummyNodeLabel: LayoutNodeLabel,
+  edgeData: LayoutEdgeLabel
+) {
+  const { width, height, labelpos, labeloffset } = edgeData;
+  const isCentered = labelpos.toLowerCase() === "c";
+
+  dummyNodeLabel.isLabelDummyNode = true;
+  dummyNodeLabel.width = isCentered ? width : 2 * (width + labeloffset);
+  dummyNodeLabel.height = height;
+}
+
 /**
  * Reads a rank table (mapping) and returns a graph matrix (array of arrays).
  *
@@ -253,6 +504,36 @@ function readRankTable(ranks: RankTable) {
   return graphMatrix;
 }
 
+/**
+ * Reorders the nodes of each layer so that no constraints are violated. Nodes
+ * keep their relative order unless a constraint dictates otherwise. Sorts the
+ * sub-arrays of `graphMatrix` in-place.
+ *
+ * @param constraintGraph A constraint graph.
+ * @param graphMatrix A node matrix.
+ */
+function satisfyConstraints(
+  constraintGraph: LayoutGraph,
+  graphMatrix: NodeId[][]
+) {
+  graphMatrix.forEach((layer, layerIndex) => {
+    const remainingNodes = [...layer];
+    const orderedLayer: NodeId[] = [];
+
+    while (remainingNodes.length) {
+      const nodeIndex = remainingNodes.findIndex((node) =>
+        (constraintGraph.predecessors(node) || []).every(
+          (predecessor) => !remainingNodes.includes(predecessor)
+        )
+      );
+
+      orderedLayer.push(...remainingNodes.splice(Math.max(nodeIndex, 0), 1));
+    }
+
+    graphMatrix[layerIndex] = orderedLayer;
+  });
+}
+
 /**
  * Counts the total number of edge crossings in a layered graph.
  *
@@ -260,7 +541,10 @@ function readRankTable(ranks: RankTable) {
  * @param graphMatrix A node matrix.
  * @returns The number of crossings in the graph.
  */
-export function countTotalCrossings(graph: Graph, graphMatrix: NodeId[][]) {
+export function countTotalCrossings(
+  graph: LayoutGraph,
+  graphMatrix: NodeId[][]
+) {
   let crossings = 0;
 
   for (let layerIndex = 1; layerIndex < graphMatrix.length; layerIndex++) {
@@ -290,7 +574,7 @@ export function countTotalCrossings(graph: Graph, graphMatrix: NodeId[][]) {
  * @returns The number of crossings between the layers.
  */
 export function countCrossings(
-  graph: Graph,
+  graph: LayoutGraph,
   northLayer: NodeId[],
   southLayer: NodeId[]
 ) {
@@ -341,7 +625,7 @@ export function countCrossings(
 }
 
 /**
- * Sorts all nodes within their layers based on their barycenters. Sweeps the
+ * Sorts all nodes within their layers based on the chosen heuristic. Sweeps the
  * layers once from top to bottom and once from bottom to top, viewing the
  * current layer as mutable and the previous one as immutable. Sorts the
  * sub-arrays of `graphMatrix` in-place.
@@ -349,11 +633,13 @@ export function countCrossings(
  * @param graph A graph object.
  * @param constraintGraph A constraint graph.
  * @param graphMatrix A node matrix.
+ * @param heuristic The heuristic by which nodes are sorted.
  */
 function sortLayers(
-  graph: Graph,
-  constraintGraph: Graph,
-  graphMatrix: NodeId[][]
+  graph: LayoutGraph,
+  constraintGraph: LayoutGraph,
+  graphMatrix: NodeId[][],
+  heuristic: CrossingMinimisation
 ) {
   for (let layerIndex = 1; layerIndex < graphMatrix.length; layerIndex++) {
     const previousLayer = graphMatrix[layerIndex - 1];
@@ -364,7 +650,8 @@ function sortLayers(
       constraintGraph,
       previousLayer,
       layer,
-      "down"
+      "down",
+      heuristic
     );
   }
 
@@ -377,32 +664,38 @@ function sortLayers(
       constraintGraph,
       layer,
       nextLayer,
-      "up"
+      "up",
+      heuristic
     );
   }
 }
 
 /**
- * Sweeps a target layer, sorting its nodes based on the average position of
- * their neighbors in the fixed layer while taking position constraints into
+ * Sweeps a target layer, sorting its nodes based on the positions of their
+ * neighbors in the fixed layer while taking position constraints into
  * consideration. If `direction` is `"down"`, `northLayer` is viewed as fixed
  * and `southLayer` as the target, and vice versa if `direction` is `"up"`.
- * Returns either a sorted or an unchanged version of the target layer depending
- * on which one leads to fewer edge crossings.
+ * Nodes without neighbors in the fixed layer are sorted by their current
+ * position. The subnodes of each conjunct node are sorted among themselves and
+ * then moved as one block together with their delimiters, so that no other
+ * node ends up between them. Returns either a sorted or an unchanged version
+ * of the target layer depending on which one leads to fewer edge crossings.
  *
  * @param graph A graph object.
  * @param constraintGraph A constraint graph.
  * @param northLayer The *above* node layer.
  * @param southLayer The *lower* node layer.
  * @param direction The iteration *direction*.
+ * @param heuristic The heuristic by which nodes are sorted.
  * @returns A sorted layer.
  */
 function sweepLayer(
-  graph: Graph,
-  constraintGraph: Graph,
+  graph: LayoutGraph,
+  constraintGraph: LayoutGraph,
   northLayer: NodeId[],
   southLayer: NodeId[],
-  direction: "down" | "up"
+  direction: "down" | "up",
+  heuristic: CrossingMinimisation
 ) {
   const mutableConstraintGraph = buildSimpleGraph(constraintGraph);
   let targetLayer: NodeId[];
@@ -416,107 +709,55 @@ function sweepLayer(
     fixedLayer = southLayer;
   }
 
-  targetLayer.forEach((node) => {
-    const neighbors =
-      (direction === "down"
-        ? graph.predecessors(node)
-        : graph.successors(node)) || [];
-    const neighborPositionSum = neighbors.reduce(
-      (sum, neighbor) => sum + fixedLayer.indexOf(neighbor),
-      0
-    );
-    const barycenter = neighborPositionSum / neighbors.length;
+  targetLayer.forEach((node, nodeIndex) => {
+    const positions = getNeighborPositions(graph, node, fixedLayer, direction);
 
     mutableConstraintGraph.setNode(node, {
-      barycenter,
+      positions,
+      measure: positions.length ? getMeasure(positions, heuristic) : nodeIndex,
       subnodes: [node],
     });
   });
 
-  const unconstrainedNodes = targetLayer.filter(
-    (node) => !mutableConstraintGraph.nodeEdges(node)?.length
-  );
-  let violatedConstraint = getViolatedConstraint(
-    targetLayer,
-    mutableConstraintGraph
-  );
-
-  while (violatedConstraint) {
-    const { v, w } = violatedConstraint;
-    let vNeighbors: NodeId[];
-    let wNeighbors: NodeId[];
+  const vertices = [...targetLayer];
 
-    if (direction === "down") {
-      vNeighbors = graph.predecessors(v) || [];
-      wNeighbors = graph.predecessors(w) || [];
-    } else {
-      vNeighbors = graph.successors(v) || [];
-      wNeighbors = graph.successors(w) || [];
-    }
+  getConjunctBlocks(graph, constraintGraph, targetLayer).forEach(
+    ({ startNode, subnodes, endNode }) => {
+      const subnodeConstraintGraph = createLayoutGraph();
 
-    const vNeighborPositionSum = vNeighbors.reduce(
-      (sum, neighbor) => sum + fixedLayer.indexOf(neighbor),
-      0
-    );
-    const wNeighborPositionSum = wNeighbors.reduce(
-      (sum, neighbor) => sum + fixedLayer.indexOf(neighbor),
-      0
-    );
-    const vBarycenter = graph.node(v)!.barycenter;
-    const wBarycenter = graph.node(w)!.barycenter;
-    const metaNodeId = `${v}-${w}`;
-    const metaNodeLabel = {
-      barycenter:
-        (vNeighborPositionSum + wNeighborPositionSum) /
-        (vNeighbors.length + wNeighbors.length),
-      subnodes: vBarycenter < wBarycenter ? [v, w] : [w, v],
-    };
-
-    mutableConstraintGraph.setNode(metaNodeId, metaNodeLabel);
-
-    const incomingConstraints = [
-      ...(mutableConstraintGraph.inEdges(v) || []),
-      ...(mutableConstraintGraph.inEdges(w) || []),
-    ];
-    const outgoingConstraints = [
-      ...(mutableConstraintGraph.outEdges(v) || []),
-      ...(mutableConstraintGraph.outEdges(w) || []),
-    ];
-
-    if ([...incomingConstraints, ...outgoingConstraints].length) {
-      incomingConstraints.forEach((constraint) => {
-        const source = constraint.v;
-        mutableConstraintGraph.removeEdge(constraint);
-        if (source !== metaNodeId)
-          mutableConstraintGraph.setEdge(source, metaNodeId);
+      subnodes.forEach((subnode) => {
+        subnodeConstraintGraph.setNode(
+          subnode,
+          mutableConstraintGraph.node(subnode)
+        );
       });
-      outgoingConstraints.forEach((constraint) => {
-        const target = constraint.w;
-        mutableConstraintGraph.removeEdge(constraint);
-        if (target !== metaNodeId)
-          mutableConstraintGraph.setEdge(metaNodeId, target);
+      mutableConstraintGraph.edges().forEach(({ v, w }) => {
+        if (subnodes.includes(v) && subnodes.includes(w))
+          subnodeConstraintGraph.setEdge(v, w);
       });
-    } else {
-      unconstrainedNodes.push(metaNodeId);
-    }
-
-    violatedConstraint = getViolatedConstraint(
-      southLayer,
-      mutableConstraintGraph
-    );
-  }
 
-  const constrainedNodes = southLayer.filter(
-    (node) => mutableConstraintGraph.nodeEdges(node)?.length
+      const sortedSubnodes = sortVertices(
+        graph,
+        subnodeConstraintGraph,
+        subnodes,
+        heuristic
+      );
+
+      mergeVertices(
+        graph,
+        mutableConstraintGraph,
+        vertices,
+        [startNode, ...sortedSubnodes, endNode],
+        heuristic
+      );
+    }
   );
-  const sortingList = [...unconstrainedNodes, ...constrainedNodes];
-  sortingList.sort((v, w) => {
-    const vBarycenter = mutableConstraintGraph.node(v)!.barycenter;
-    const wBarycenter = mutableConstraintGraph.node(w)!.barycenter;
-    return vBarycenter - wBarycenter;
-  });
-  const sortedLayer = sortingList.flatMap((node) =>
-    unpackSubnodes(mutableConstraintGraph, node)
+
+  const sortedLayer = sortVertices(
+    graph,
+    mutableConstraintGraph,
+    vertices,
+    heuristic
   );
 
   if (
@@ -529,17 +770,206 @@ function sweepLayer(
 }
 
 /**
- * Finds a violated constraint in such a way that resolving it will not lead to
- * constraint cycles, i.e., an unresolvable pair of constraints.
+ * Gets the delimiters and subnodes of the conjunct nodes in a layer.
  *
- * @param layer A layer of nodes.
+ * @param graph A graph object.
  * @param constraintGraph A constraint graph.
+ * @param layer A layer of nodes.
+ * @returns The delimiters and subnodes of each conjunct node.
+ */
+function getConjunctBlocks(
+  graph: LayoutGraph,
+  constraintGraph: LayoutGraph,
+  layer: NodeId[]
+) {
+  return layer
+    .filter((node) => graph.node(node).conjunctNode)
+    .map((startNode) => {
+      const subnodes = constraintGraph.successors(startNode) || [];
+      const endNode = (constraintGraph.successors(subnodes[0]) || []).find(
+        (node) => graph.node(node)?.isConjunctDummyNode
+      )!;
+
+      return { startNode, subnodes, endNode };
+    });
+}
+
+/**
+ * Sorts vertices by their measures such that no constraints are violated.
+ * Constrained vertices whose measures are in the wrong order are merged into
+ * meta nodes, as described by Forster, until no constraint is violated.
+ *
+ * @param graph A graph object.
+ * @param constraintGraph A constraint graph whose nodes are labelled with
+ * measures. Is modified.
+ * @param vertices The nodes and meta nodes to sort.
+ * @param heuristic The heuristic by which nodes are sorted.
+ * @returns The nodes represented by the vertices in sorted order.
+ */
+function sortVertices(
+  graph: LayoutGraph,
+  constraintGraph: LayoutGraph,
+  vertices: NodeId[],
+  heuristic: CrossingMinimisation
+) {
+  const remainingVertices = [...vertices];
+  let violatedConstraint = getViolatedConstraint(
+    remainingVertices,
+    constraintGraph
+  );
+
+  while (violatedConstraint) {
+    const { v, w } = violatedConstraint;
+
+    mergeVertices(graph, constraintGraph, remainingVertices, [v, w], heuristic);
+    violatedConstraint = getViolatedConstraint(
+      remainingVertices,
+      constraintGraph
+    );
+  }
+
+  remainingVertices.sort(
+    (v, w) => constraintGraph.node(v).measure - constraintGraph.node(w).measure
+  );
+
+  return remainingVertices.flatMap((node) =>
+    unpackSubnodes(constraintGraph, node)
+  );
+}
+
+/**
+ * Replaces vertices with a meta node that keeps them in the given order. The
+ * constraints of the vertices are moved to the meta node, and constraints
+ * between them are dropped.
+ *
+ * @param graph A graph object.
+ * @param constraintGraph A constraint graph whose nodes are labelled with
+ * measures.
+ * @param vertices The current vertices. Is updated in-place.
+ * @param subnodes The vertices to merge, in order.
+ * @param heuristic The heuristic by which nodes are sorted.
+ */
+function mergeVertices(
+  graph: LayoutGraph,
+  constraintGraph: LayoutGraph,
+  vertices: NodeId[],
+  subnodes: NodeId[],
+  heuristic: CrossingMinimisation
+) {
+  const labels = subnodes.map((subnode) => constraintGraph.node(subnode));
+  const positions = labels
+    .flatMap((label) => label.positions)
+    .sort((position0: number, position1: number) => position0 - position1);
+  const metaNodeId = uniqueNodeId(graph, "meta");
+
+  constraintGraph.setNode(metaNodeId, {
+    positions,
+    measure: positions.length
+      ? getMeasure(positions, heuristic)
+      : labels.reduce((sum, label) => sum + label.measure, 0) / labels.length,
+    subnodes,
+  });
+
+  subnodes.forEach((subnode) => {
+    (constraintGraph.inEdges(subnode) || []).forEach((constraint) => {
+      constraintGraph.removeEdge(constraint);
+      if (!subnodes.includes(constraint.v))
+        constraintGraph.setEdge(constraint.v, metaNodeId);
+    });
+    (constraintGraph.outEdges(subnode) || []).forEach((constraint) => {
+      constraintGraph.removeEdge(constraint);
+      if (!subnodes.includes(constraint.w))
+        constraintGraph.setEdge(metaNodeId, constraint.w);
+    });
+    vertices.splice(vertices.indexOf(subnode), 1);
+  });
+  vertices.push(metaNodeId);
+}
+
+/**
+ * Gets the sorted positions of the neighbors of a node in a fixed layer. If
+ * `direction` is `"down"`, the predecessors of the node are considered, and
+ * its successors if `direction` is `"up"`.
+ *
+ * @param graph A graph object.
+ * @param node A node ID.
+ * @param fixedLayer The layer of the neighbors.
+ * @param direction The iteration *direction*.
+ * @returns The positions of the neighbors in ascending order.
+ */
+function getNeighborPositions(
+  graph: LayoutGraph,
+  node: NodeId,
+  fixedLayer: NodeId[],
+  direction: "down" | "up"
+) {
+  const neighbors =
+    (direction === "down"
+      ? graph.predecessors(node)
+      : graph.successors(node)) || [];
+
+  return neighbors
+    .map((neighbor) => fixedLayer.indexOf(neighbor))
+    .filter((position) => position >= 0)
+    .sort((position0, position1) => position0 - position1);
+}
+
+/**
+ * Computes the value by which a node is sorted from the positions of its
+ * neighbors. The barycenter is their average. The median is the lower median,
+ * as used by Eades and Wormald. The weighted median is Gansner et al.'s
+ * variant, which interpolates between the two middle positions, leaning
+ * towards the side where the positions are closer together.
+ *
+ * @see
+ * [A Technique for Drawing Directed Graphs](https://ieeexplore.ieee.org/document/221135)
+ *
+ * @param positions The positions of the neighbors in ascending order. Must not
+ * be empty.
+ * @param heuristic A crossing minimisation heuristic.
+ * @returns The measure of the node.
+ */
+function getMeasure(positions: number[], heuristic: CrossingMinimisation) {
+  const middleIndex = Math.floor(positions.length / 2);
+
+  if (heuristic === "barycenter")
+    return (
+      positions.reduce((sum, position) => sum + position, 0) / positions.length
+    );
+  if (heuristic === "median")
+    return positions[Math.floor((positions.length - 1) / 2)];
+  if (positions.length % 2) return positions[middleIndex];
+
+  const lowerMiddle = positions[middleIndex - 1];
+  const upperMiddle = positions[middleIndex];
+  const leftSpan = lowerMiddle - positions[0];
+  const rightSpan = positions[positions.length - 1] - upperMiddle;
+
+  if (positions.length === 2 || leftSpan + rightSpan === 0)
+    return (lowerMiddle + upperMiddle) / 2;
+
+  return (
+    (lowerMiddle * rightSpan + upperMiddle * leftSpan) / (leftSpan + rightSpan)
+  );
+}
+
+/**
+ * Finds a constraint whose source is not sorted before its target in such a
+ * way that resolving it will not lead to constraint cycles, i.e., an
+ * unresolvable pair of constraints.
+ *
+ * @param vertices The nodes and meta nodes of a layer.
+ * @param constraintGraph A constraint graph whose nodes are labelled with
+ * measures.
  * @returns A violated constraint.
  */
-function getViolatedConstraint(layer: NodeId[], constraintGraph: Graph) {
+function getViolatedConstraint(
+  vertices: NodeId[],
+  constraintGraph: LayoutGraph
+) {
   const incomingConstraints: { [node: NodeId]: Edge[] } = {};
   const nodes: NodeId[] = [];
-  const constrainedNodes = layer.filter(
+  const constrainedNodes = vertices.filter(
     (node) => constraintGraph.nodeEdges(node)?.length
   );
 
@@ -553,7 +983,11 @@ function getViolatedConstraint(layer: NodeId[], constraintGraph: Graph) {
 
     for (const constraint of incomingConstraints[node]) {
       const source = constraint.v;
-      if (layer.indexOf(source) >= layer.indexOf(node)) return constraint;
+      if (
+        constraintGraph.node(source).measure >=
+        constraintGraph.node(node).measure
+      )
+        return constraint;
     }
 
     const outgoingConstraints = constraintGraph.outEdges(node) || [];
@@ -580,7 +1014,7 @@ function getViolatedConstraint(layer: NodeId[], constraintGraph: Graph) {
  * @param node An ID of a meta node.
  * @returns The IDs of *all* subnodes of `node`.
  */
-function unpackSubnodes(graph: Graph, node: NodeId): NodeId[] {
+function unpackSubnodes(graph: LayoutGraph, node: NodeId): NodeId[] {
   const subnodes: NodeId[] = graph.node(node)!.subnodes;
 
   if (subnodes.length > 1)
@@ -589,9 +1023,101 @@ function unpackSubnodes(graph: Graph, node: NodeId): NodeId[] {
   return subnodes;
 }
 
+/**
+ * Swaps adjacent nodes within layers whenever doing so reduces the number of
+ * crossings without violating any constraints, until no swap helps. This is
+ * the transposition refinement of Gansner et al. Conjunct delimiters are never
+ * swapped, so that no node is moved into or out of a conjunct node. Modifies
+ * the sub-arrays of `graphMatrix` in-place.
+ *
+ * @param graph A graph object.
+ * @param constraintGraph A constraint graph.
+ * @param graphMatrix A node matrix.
+ */
+function transposeLayers(
+  graph: LayoutGraph,
+  constraintGraph: LayoutGraph,
+  graphMatrix: NodeId[][]
+) {
+  let hasImproved = true;
+
+  while (hasImproved) {
+    hasImproved = false;
+
+    graphMatrix.forEach((layer, layerIndex) => {
+      const northLayer = graphMatrix[layerIndex - 1] || [];
+      const southLayer = graphMatrix[layerIndex + 1] || [];
+
+      for (let nodeIndex = 0; nodeIndex < layer.length - 1; nodeIndex++) {
+        const v = layer[nodeIndex];
+        const w = layer[nodeIndex + 1];
+
+        if (
+          graph.node(v).isConjunctDummyNode ||
+          graph.node(w).isConjunctDummyNode ||
+          hasPath(constraintGraph, v, w)
+        )
+          continue;
+
+        const crossingCount = countPairCrossings(
+          graph,
+          v,
+          w,
+          northLayer,
+          southLayer
+        );
+        const swappedCrossingCount = countPairCrossings(
+          graph,
+          w,
+          v,
+          northLayer,
+          southLayer
+        );
+
+        if (swappedCrossingCount < crossingCount) {
+          layer[nodeIndex] = w;
+          layer[nodeIndex + 1] = v;
+          hasImproved = true;
+        }
+      }
+    });
+  }
+}
+
+/**
+ * Counts the crossings between the edges of two nodes of a layer, given that
+ * `v` is placed to the left of `w`.
+ *
+ * @param graph A graph object.
+ * @param v The left node.
+ * @param w The right node.
+ * @param northLayer The layer above the nodes.
+ * @param southLayer The layer below the nodes.
+ * @returns The number of crossings between the edges of `v` and `w`.
+ */
+function countPairCrossings(
+  graph: LayoutGraph,
+  v: NodeId,
+  w: NodeId,
+  northLayer: NodeId[],
+  southLayer: NodeId[]
+) {
+  return (["down", "up"] as const).reduce((crossings, direction) => {
+    const fixedLayer = direction === "down" ? northLayer : southLayer;
+    const vPositions = getNeighborPositions(graph, v, fixedLayer, direction);
+    const wPositions = getNeighborPositions(graph, w, fixedLayer, direction);
+
+    return vPositions.reduce(
+      (sum, vPosition) =>
+        sum + wPositions.filter((wPosition) => wPosition < vPosition).length,
+      crossings
+    );
+  }, 0);
+}
+
 // function reverseWithinLayers(
-//   graph: Graph,
-//   constraintGraph: Graph,
+//   graph: LayoutGraph,
+//   constraintGraph: LayoutGraph,
 //   graphMatrix: NodeId[][]
 // ) {
 //   for (let i = 1; i < graphMatrix.length; i++) {
@@ -616,8 +1142,8 @@ function unpackSubnodes(graph: Graph, node: NodeId): NodeId[] {
 // }
 
 // function reverseEqualBarycenters(
-//   graph: Graph,
-//   constraintGraph: Graph,
+//   graph: LayoutGraph,
+//   constraintGraph: LayoutGraph,
 //   northLayer: NodeId[],
 //   southLayer: NodeId[],
 //   direction: "down" | "up"
@@ -675,7 +1201,7 @@ function unpackSubnodes(graph: Graph, node: NodeId): NodeId[] {
 //  * @param direction The direction we are iterating through layers.
 //  */
 // function sweepLayer(
-//   graph: Graph,
+//   graph: LayoutGraph,
 //   ranks: RankTable,
 //   graphMatrix: NodeId[][],
 //   layer: NodeId[],
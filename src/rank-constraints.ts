@@ -0,0 +1,785 @@
+import { Edge } from "graphlib";
+import {
+  LayoutEdgeLabel,
+  LayoutGraph,
+  LayoutNodeLabel,
+  RankPin,
+} from "./graph.js";
+import { RankConstraintError } from "./errors.js";
+import { getStronglyConnectedComponents } from "./remove-cycles.js";
+import {
+  EdgeAndLabel,
+  NodeId,
+  RankTable,
+  SubnodeData,
+  uniqueNodeId,
+} from "./utils.js";
+
+/**
+ * The changes made to a layout graph to apply its rank constraints, which are
+ * needed to enforce and remove them again.
+ */
+export interface AppliedRankConstraints {
+  /** Meta nodes standing in for groups of nodes with fixed rank offsets. */
+  groupNodes: NodeId[];
+  /** The ranks nodes are pinned to, counted from the first rank. */
+  pinnedRanks: Map<NodeId, number>;
+  /**
+   * The ranks nodes are pinned to, counted back from the last rank, which the
+   * lowest subnodes of a node may be on.
+   */
+  pinnedRanksFromLast: Map<NodeId, number>;
+  /** Nodes pinned to the first rank. */
+  firstRankNodes: NodeId[];
+  /** Nodes whose lowest subnodes are pinned to the last rank. */
+  lastRankNodes: NodeId[];
+  /** The number of ranks the subnodes of each node span below its own rank. */
+  extents: Map<NodeId, number>;
+  /** A temporary node on or above the first rank, if ranks are pinned. */
+  topNode?: NodeId;
+  /** A temporary node on or below the last rank, if ranks are pinned to it. */
+  bottomNode?: NodeId;
+  /** Temporary edges enforcing the constraints. */
+  addedEdges: Edge[];
+  /** The original labels of edges whose minimum length was raised. */
+  modifiedEdges: EdgeAndLabel[];
+}
+
+/**
+ * The position of a node relative to the rank of another node.
+ */
+interface RankPosition {
+  node: NodeId;
+  offset: number;
+}
+
+/**
+ * Applies the rank constraints set by {@link Graph.setSameRank},
+ * {@link Graph.pinRank} and {@link Graph.setMinRankGap}, so that rankers
+ * respect them. Returns the changes made to the graph.
+ *
+ * @remarks
+ * Nodes on the same rank, including all nodes pinned to the same rank, are
+ * merged into a single meta node. Nodes pinned to the first (last) rank get
+ * edges of minimum length 0 to (from) all other nodes, and minimum rank gaps
+ * become edges of the gap's minimum length. All of these edges have a weight
+ * of 0. Nodes pinned to a specific rank get an edge of that minimum length
+ * from a temporary top node. Pinned nodes are then moved to their rank by
+ * {@link enforcePinnedRanks}.
+ *
+ * Constraints on the subnodes of conjunct nodes and warrant structures apply
+ * to the node they are merged into, taking into account that the target of a
+ * warrant is placed one rank below its source. Like the edges into such a
+ * target, a rank gap of 0 to it is kept to its source. Warrants themselves
+ * cannot be constrained, as they are placed between ranks.
+ *
+ * If conclusions are placed above premises, the graph is laid out bottom-up
+ * and mirrored afterwards. The constraints are mirrored accordingly: pins to
+ * the first and last rank are swapped, rank gaps are reversed and pinned ranks
+ * are counted back from the last rank.
+ *
+ * @param graph A graph object. Must be directed and acyclic.
+ * @returns The changes made to the graph.
+ */
+export function applyRankConstraints(
+  graph: LayoutGraph
+): AppliedRankConstraints {
+  const constraints: AppliedRankConstraints = {
+    groupNodes: [],
+    pinnedRanks: new Map(),
+    pinnedRanksFromLast: new Map(),
+    firstRankNodes: [],
+    lastRankNodes: [],
+    extents: new Map(),
+    addedEdges: [],
+    modifiedEdges: [],
+  };
+  const positions = getRankPositions(graph);
+  const sameRankNodes: [NodeId, NodeId][] = [];
+  const pinnedNodes = new Map<RankPin, NodeId[]>();
+  const rankGaps: { v: NodeId; w: NodeId; gap: number }[] = [];
+  const isMirrored = graph.graph()?.orientation === "conclusion-above";
+  const mirroredPins: { [pin: string]: RankPin } = { min: "max", max: "min" };
+
+  positions.forEach(({ label }, node) => {
+    const { sameRankAs = [], minRankGaps = [] } = label || {};
+    let { pinnedRank } = label || {};
+
+    if (isMirrored && pinnedRank !== undefined)
+      pinnedRank = mirroredPins[pinnedRank] ?? pinnedRank;
+
+    sameRankAs.forEach((other: NodeId) => {
+      if (positions.has(other)) sameRankNodes.push([node, other]);
+    });
+    if (pinnedRank !== undefined)
+      pinnedNodes.set(pinnedRank, [
+        ...(pinnedNodes.get(pinnedRank) || []),
+        node,
+      ]);
+    minRankGaps.forEach(({ node: w, gap }: { node: NodeId; gap: number }) => {
+      if (!positions.has(w)) return;
+      rankGaps.push(isMirrored ? { v: w, w: node, gap } : { v: node, w, gap });
+    });
+  });
+
+  if (!sameRankNodes.length && !pinnedNodes.size && !rankGaps.length)
+    return constraints;
+
+  const getPosition = (node: NodeId): RankPosition => {
+    const { node: representative, offset } = positions.get(node)!;
+
+    if (offset === undefined)
+      throw new RankConstraintError(
+        `Rank constraints on warrants are not supported: "${node}"`,
+        { nodes: [node] }
+      );
+
+    return { node: representative, offset };
+  };
+  const groupLinks = new Map<NodeId, RankPosition>();
+  const getGroup = (node: NodeId): RankPosition => {
+    const link = groupLinks.get(node);
+
+    if (!link) return { node, offset: 0 };
+
+    const group = getGroup(link.node);
+    return { node: group.node, offset: group.offset + link.offset };
+  };
+  const placeOnSameRank = (node0: NodeId, node1: NodeId) => {
+    const position0 = getPosition(node0);
+    const position1 = getPosition(node1);
+    const group0 = getGroup(position0.node);
+    const group1 = getGroup(position1.node);
+    const offset0 = group0.offset + position0.offset;
+    const offset1 = group1.offset + position1.offset;
+
+    if (group0.node !== group1.node)
+      groupLinks.set(group1.node, {
+        node: group0.node,
+        offset: offset0 - offset1,
+      });
+    else if (offset0 !== offset1)
+      throw new RankConstraintError(
+        `Nodes "${node0}" and "${node1}" cannot be placed on the same rank`,
+        { nodes: [node0, node1] }
+      );
+  };
+
+  pinnedNodes.forEach((nodes) => {
+    nodes.forEach((node) => placeOnSameRank(nodes[0], node));
+  });
+  sameRankNodes.forEach(([node0, node1]) => placeOnSameRank(node0, node1));
+
+  const groupPositions = mergeRankGroups(graph, getGroup, constraints);
+  const locate = (node: NodeId): RankPosition => {
+    const { node: representative, offset } = getPosition(node);
+    const group = groupPositions.get(representative)!;
+
+    return { node: group.node, offset: group.offset + offset };
+  };
+  rankGaps.forEach(({ v, w, gap }) => {
+    const upper = locate(v);
+    const lower = locate(w);
+    const minlen = gap + upper.offset - lower.offset;
+
+    if (upper.node !== lower.node)
+      addConstraintEdge(
+        graph,
+        upper.node,
+        lower.node,
+        Math.max(minlen, 0),
+        constraints
+      );
+    else if (minlen > 0)
+      throw new RankConstraintError(
+        `Nodes "${v}" and "${w}" cannot be placed ${gap} ranks apart`,
+        { nodes: [v, w] }
+      );
+  });
+
+  const getExtent = (node: NodeId) => constraints.extents.get(node) || 0;
+
+  pinnedNodes.forEach((nodes, pinnedRank) => {
+    const { node, offset } = locate(nodes[0]);
+    const involvedElements = { nodes: getOriginalNodes(graph, node) };
+
+    if (pinnedRank === "min") {
+      if (offset > 0)
+        throw new RankConstraintError(
+          "Nodes pinned to the first rank must not have nodes above them",
+          involvedElements
+        );
+
+      const ancestors = getReachableNodes(graph, [node], "up");
+
+      constraints.firstRankNodes.push(node);
+      graph.nodes().forEach((other) => {
+        if (!ancestors.has(other))
+          addConstraintEdge(graph, node, other, 0, constraints);
+      });
+    } else if (pinnedRank === "max") {
+      if (offset < getExtent(node))
+        throw new RankConstraintError(
+          "Nodes pinned to the last rank must not have nodes below them",
+          involvedElements
+        );
+
+      const descendants = getReachableNodes(graph, [node], "down");
+
+      constraints.lastRankNodes.push(node);
+      graph.nodes().forEach((other) => {
+        const minlen = getExtent(other) - getExtent(node);
+
+        if (minlen >= 0 && !descendants.has(other))
+          addConstraintEdge(graph, other, node, minlen, constraints);
+      });
+    } else if (isMirrored) {
+      const rankFromLast = pinnedRank + offset;
+      const otherRank = constraints.pinnedRanksFromLast.get(node);
+
+      if (otherRank !== undefined && otherRank !== rankFromLast)
+        throw new RankConstraintError(
+          "Nodes on the same rank are pinned to different ranks",
+          involvedElements
+        );
+      if (rankFromLast < getExtent(node))
+        throw new RankConstraintError(
+          `Nodes pinned to rank ${pinnedRank} have too many ranks above them`,
+          involvedElements
+        );
+
+      constraints.pinnedRanksFromLast.set(node, rankFromLast);
+    } else {
+      const otherRank = constraints.pinnedRanks.get(node);
+
+      if (otherRank !== undefined && otherRank !== pinnedRank - offset)
+        throw new RankConstraintError(
+          "Nodes on the same rank are pinned to different ranks",
+          involvedElements
+        );
+      if (offset > pinnedRank)
+        throw new RankConstraintError(
+          `Nodes pinned to rank ${pinnedRank} have too many ranks above them`,
+          involvedElements
+        );
+
+      constraints.pinnedRanks.set(node, pinnedRank - offset);
+    }
+  });
+
+  if (constraints.pinnedRanks.size) {
+    const topNode = uniqueNodeId(graph, "top");
+
+    graph.setNode(topNode, {});
+    graph.nodes().forEach((node) => {
+      addConstraintEdge(graph, topNode, node, 0, constraints);
+    });
+    constraints.pinnedRanks.forEach((pinnedRank, node) => {
+      addConstraintEdge(graph, topNode, node, pinnedRank, constraints);
+    });
+    constraints.topNode = topNode;
+  }
+
+  if (constraints.pinnedRanksFromLast.size) {
+    const bottomNode = uniqueNodeId(graph, "bottom");
+
+    graph.setNode(bottomNode, {});
+    graph.nodes().forEach((node) => {
+      addConstraintEdge(graph, node, bottomNode, getExtent(node), constraints);
+    });
+    constraints.pinnedRanksFromLast.forEach((pinnedRank, node) => {
+      addConstraintEdge(graph, node, bottomNode, pinnedRank, constraints);
+    });
+    constraints.bottomNode = bottomNode;
+  }
+
+  getStronglyConnectedComponents(graph).forEach((component) => {
+    if (component.length < 2) return;
+
+    throw new RankConstraintError(
+      "Rank constraints contradict each other or the edges between the nodes",
+      { nodes: component.flatMap((node) => getOriginalNodes(graph, node)) }
+    );
+  });
+
+  return constraints;
+}
+
+/**
+ * Moves nodes pinned to a rank to that rank, along with any ancestors or
+ * descendants that would otherwise be too close, and checks that all pinned
+ * nodes end up on their rank. Must be called while the constraints are still
+ * applied.
+ *
+ * @param graph A graph object.
+ * @param ranks A rank table.
+ * @param constraints The changes made by {@link applyRankConstraints}.
+ */
+export function enforcePinnedRanks(
+  graph: LayoutGraph,
+  ranks: RankTable,
+  constraints: AppliedRankConstraints
+) {
+  const {
+    topNode,
+    bottomNode,
+    pinnedRanks,
+    pinnedRanksFromLast,
+    firstRankNodes,
+    lastRankNodes,
+    extents,
+  } = constraints;
+  const nodes = graph
+    .nodes()
+    .filter((node) => node !== topNode && node !== bottomNode);
+  const getExtent = (node: NodeId) => extents.get(node) || 0;
+  const getFirstRank = () =>
+    Math.min(...nodes.map((node) => ranks.getRank(node)!));
+  const getLastRank = () =>
+    Math.max(...nodes.map((node) => ranks.getRank(node)! + getExtent(node)));
+
+  if (
+    !pinnedRanks.size &&
+    !pinnedRanksFromLast.size &&
+    !firstRankNodes.length &&
+    !lastRankNodes.length
+  )
+    return;
+
+  // Nodes pinned below the first rank and their descendants cannot be on it
+  const lowerNodes = getReachableNodes(
+    graph,
+    [...pinnedRanks.keys()].filter((node) => pinnedRanks.get(node)! > 0),
+    "down"
+  );
+  const firstRankCandidates = nodes.filter((node) => !lowerNodes.has(node));
+
+  if (!firstRankCandidates.length)
+    throw new RankConstraintError(
+      "All nodes are pinned below the first rank or placed below such nodes",
+      {
+        nodes: [...lowerNodes].flatMap((node) => getOriginalNodes(graph, node)),
+      }
+    );
+
+  const firstRank = Math.min(
+    ...firstRankCandidates.map((node) => ranks.getRank(node)!)
+  );
+
+  if (topNode !== undefined) ranks.set(topNode, firstRank);
+  pinnedRanks.forEach((pinnedRank, node) => {
+    moveNode(graph, ranks, node, firstRank + pinnedRank, "down");
+    moveNode(graph, ranks, node, firstRank + pinnedRank, "up");
+  });
+  firstRankNodes.forEach((node) => {
+    moveNode(graph, ranks, node, firstRank, "up");
+  });
+
+  // Nodes pinned above the last rank and their ancestors cannot reach it
+  const upperNodes = getReachableNodes(
+    graph,
+    [...pinnedRanksFromLast.keys()].filter(
+      (node) => pinnedRanksFromLast.get(node)! > getExtent(node)
+    ),
+    "up"
+  );
+  const lastRankCandidates = nodes.filter((node) => !upperNodes.has(node));
+
+  if (!lastRankCandidates.length)
+    throw new RankConstraintError(
+      "All nodes are pinned above the last rank or placed above such nodes",
+      {
+        nodes: [...upperNodes].flatMap((node) => getOriginalNodes(graph, node)),
+      }
+    );
+
+  const lastRank = Math.max(
+    ...lastRankCandidates.map((node) => ranks.getRank(node)! + getExtent(node))
+  );
+
+  if (bottomNode !== undefined) ranks.set(bottomNode, lastRank);
+  pinnedRanksFromLast.forEach((pinnedRank, node) => {
+    moveNode(graph, ranks, node, lastRank - pinnedRank, "up");
+    moveNode(graph, ranks, node, lastRank - pinnedRank, "down");
+  });
+  lastRankNodes.forEach((node) => {
+    moveNode(graph, ranks, node, lastRank - extents.get(node)!, "down");
+  });
+
+  const checkRank = (node: NodeId, rank: number) => {
+    if (ranks.getRank(node) === rank) return;
+
+    throw new RankConstraintError(
+      "Pinned nodes cannot be placed on their rank without breaking other constraints",
+      { nodes: getOriginalNodes(graph, node) }
+    );
+  };
+
+  pinnedRanks.forEach((pinnedRank, node) => {
+    checkRank(node, getFirstRank() + pinnedRank);
+  });
+  pinnedRanksFromLast.forEach((pinnedRank, node) => {
+    checkRank(node, getLastRank() - pinnedRank);
+  });
+  firstRankNodes.forEach((node) => checkRank(node, getFirstRank()));
+  lastRankNodes.forEach((node) => {
+    checkRank(node, getLastRank() - extents.get(node)!);
+  });
+}
+
+/**
+ * Reverts the changes made by {@link applyRankConstraints}. The nodes of each
+ * group are placed relative to the rank of its meta node. Groups are split in
+ * reverse order, as the edges stored by a group may lead to groups merged
+ * before it.
+ *
+ * @param graph A graph object.
+ * @param ranks A rank table.
+ * @param constraints The changes made by {@link applyRankConstraints}.
+ */
+export function removeRankConstraints(
+  graph: LayoutGraph,
+  ranks: RankTable,
+  constraints: AppliedRankConstraints
+) {
+  const { groupNodes, topNode, bottomNode, addedEdges, modifiedEdges } =
+    constraints;
+
+  [...modifiedEdges].reverse().forEach(({ v, w, label }) => {
+    graph.setEdge(v, w, label);
+  });
+  addedEdges.forEach((edge) => {
+    graph.removeEdge(edge);
+  });
+
+  [topNode, bottomNode].forEach((node) => {
+    if (node === undefined) return;
+
+    graph.removeNode(node);
+    ranks.delete(node);
+  });
+
+  [...groupNodes].reverse().forEach((groupNode) => {
+    const { subnodeData, subnodeOffsets, originalEdges } =
+      graph.node(groupNode);
+    const rank = ranks.getRank(groupNode)!;
+
+    graph.removeNode(groupNode);
+    ranks.delete(groupNode);
+
+    Object.keys(subnodeData).forEach((node) => {
+      graph.setNode(node, subnodeData[node]);
+      ranks.set(node, rank + subnodeOffsets[node]);
+    });
+    originalEdges.forEach(({ v, w, label, name }: EdgeAndLabel) => {
+      graph.setEdge(v, w, label, name);
+    });
+  });
+}
+
+/**
+ * Maps every node, including the subnodes of conjunct nodes and warrant
+ * structures, to the node of the graph that it is merged into, its rank offset
+ * to that node and its label. The offsets of warrants are undefined.
+ *
+ * @param graph A graph object.
+ * @returns The position and the label of each node.
+ */
+function getRankPositions(graph: LayoutGraph) {
+  const positions = new Map<
+    NodeId,
+    { node: NodeId; offset?: number; label?: LayoutNodeLabel }
+  >();
+  const addNode = (
+    node: NodeId,
+    label: LayoutNodeLabel | undefined,
+    representative: NodeId,
+    offset?: number
+  ) => {
+    const subnodeData: SubnodeData = label?.subnodeData || {};
+    const warrantSink = Object.values(subnodeData).find(
+      (subnodeLabel) => subnodeLabel?.isWarrantSink
+    );
+    let targetEdge: Edge | undefined = warrantSink?.targetEdge;
+
+    while (targetEdge && subnodeData[targetEdge.w]?.isWarrantSink)
+      targetEdge = subnodeData[targetEdge.w].targetEdge;
+
+    positions.set(node, { node: representative, offset, label });
+    Object.keys(subnodeData).forEach((subnode) => {
+      let subnodeOffset = offset;
+
+      if (targetEdge?.w === subnode && offset !== undefined)
+        subnodeOffset = offset + 1;
+      else if (targetEdge && targetEdge.v !== subnode)
+        subnodeOffset = undefined;
+
+      addNode(subnode, subnodeData[subnode], representative, subnodeOffset);
+    });
+  };
+
+  graph.nodes().forEach((node) => addNode(node, graph.node(node), node, 0));
+
+  return positions;
+}
+
+/**
+ * Merges each group of nodes with fixed rank offsets to each other into a meta
+ * node with all their edges. Stores away their labels, offsets and edges for
+ * later restoration, and records the extent of each node.
+ *
+ * @param graph A graph object.
+ * @param getGroup Returns the group of a node, identified by one of its nodes,
+ * and the rank offset of the node to it.
+ * @param constraints The changes made to the graph, which are extended.
+ * @returns The position of each node of the graph before merging.
+ */
+function mergeRankGroups(
+  graph: LayoutGraph,
+  getGroup: (node: NodeId) => RankPosition,
+  constraints: AppliedRankConstraints
+) {
+  const groups = new Map<NodeId, NodeId[]>();
+  const positions = new Map<NodeId, RankPosition>();
+
+  graph.nodes().forEach((node) => {
+    const { node: group } = getGroup(node);
+    const { subnodeData = {} } = graph.node(node) || {};
+    const isWarrantStructure = Object.values<LayoutNodeLabel>(subnodeData).some(
+      (label) => label?.isWarrantSink
+    );
+
+    groups.set(group, [...(groups.get(group) || []), node]);
+    positions.set(node, { node, offset: 0 });
+    constraints.extents.set(node, isWarrantStructure ? 1 : 0);
+  });
+
+  groups.forEach((members) => {
+    if (members.length < 2) return;
+
+    const groupNode = uniqueNodeId(graph, "rank-group");
+    const firstOffset = Math.min(
+      ...members.map((member) => getGroup(member).offset)
+    );
+    const subnodeData: SubnodeData = {};
+    const subnodeOffsets: { [node: NodeId]: number } = {};
+    const originalEdges: EdgeAndLabel[] = [];
+
+    members.forEach((member) => {
+      subnodeOffsets[member] = getGroup(member).offset - firstOffset;
+    });
+
+    graph.setNode(groupNode, {});
+    members.forEach((member) => {
+      const offset = subnodeOffsets[member];
+      const inEdges = graph.inEdges(member) || [];
+      const outEdges = (graph.outEdges(member) || []).filter(
+        (edge) => !members.includes(edge.w)
+      );
+
+      inEdges.forEach((edge) => {
+        const label = graph.edge(edge);
+
+        originalEdges.push({ ...edge, label });
+
+        if (!members.includes(edge.v))
+          mergeEdge(graph, edge.v, groupNode, label, label.minlen - offset);
+        else if (offset - subnodeOffsets[edge.v] < label.minlen)
+          throw new RankConstraintError(
+            `Rank constraints contradict the edge "${edge.v}" -> "${edge.w}"`,
+            { nodes: [edge.v, edge.w], edges: [edge] }
+          );
+      });
+      outEdges.forEach((edge) => {
+        const label = graph.edge(edge);
+
+        originalEdges.push({ ...edge, label });
+        mergeEdge(graph, groupNode, edge.w, label, label.minlen + offset);
+      });
+    });
+
+    constraints.extents.set(
+      groupNode,
+      Math.max(
+        ...members.map(
+          (member) => subnodeOffsets[member] + constraints.extents.get(member)!
+        )
+      )
+    );
+    members.forEach((member) => {
+      subnodeData[member] = graph.node(member);
+      positions.set(member, {
+        node: groupNode,
+        offset: subnodeOffsets[member],
+      });
+      constraints.extents.delete(member);
+      graph.removeNode(member);
+    });
+
+    Object.assign(graph.node(groupNode), {
+      subnodeData,
+      subnodeOffsets,
+      originalEdges,
+    });
+    constraints.groupNodes.push(groupNode);
+  });
+
+  return positions;
+}
+
+/**
+ * Adds an edge to or from a meta node, or merges it with an existing edge
+ * between the same nodes by taking the larger minimum length and summing the
+ * weights. Negative minimum lengths are raised to 0.
+ *
+ * @param graph A graph object.
+ * @param v The source of the edge.
+ * @param w The target of the edge.
+ * @param label The label of the original edge.
+ * @param minlen The minimum length of the edge.
+ */
+function mergeEdge(
+  graph: LayoutGraph,
+  v: NodeId,
+  w: NodeId,
+  label: LayoutEdgeLabel,
+  minlen: number
+) {
+  const mergedLabel = graph.edge(v, w);
+
+  graph.setEdge(
+    v,
+    w,
+    mergedLabel
+      ? {
+          ...mergedLabel,
+          minlen: Math.max(mergedLabel.minlen, minlen),
+          weight: mergedLabel.weight + label.weight,
+        }
+      : { ...label, minlen: Math.max(minlen, 0) }
+  );
+}
+
+/**
+ * Requires node `w` to be ranked at least `minlen` ranks below node `v`, by
+ * adding an edge of weight 0 or raising the minimum length of an existing one.
+ *
+ * @param graph A graph object.
+ * @param v The upper node.
+ * @param w The lower node.
+ * @param minlen The minimum number of ranks between the nodes.
+ * @param constraints The changes made to the graph, which are extended.
+ */
+function addConstraintEdge(
+  graph: LayoutGraph,
+  v: NodeId,
+  w: NodeId,
+  minlen: number,
+  constraints: AppliedRankConstraints
+) {
+  if (v === w) return;
+
+  const label = graph.edge(v, w);
+
+  if (!label) {
+    graph.setEdge(v, w, { minlen, weight: 0 });
+    constraints.addedEdges.push({ v, w });
+  } else if (label.minlen < minlen) {
+    graph.setEdge(v, w, { ...label, minlen });
+    constraints.modifiedEdges.push({ v, w, label });
+  }
+}
+
+/**
+ * Moves a node up or down to a rank, unless it is already there or beyond, and
+ * moves its ancestors or descendants along as far as the minimum lengths of
+ * their edges require.
+ *
+ * @param graph A graph object.
+ * @param ranks A rank table.
+ * @param node The node to move.
+ * @param rank The rank to move the node to.
+ * @param direction The direction to move the node in.
+ */
+function moveNode(
+  graph: LayoutGraph,
+  ranks: RankTable,
+  node: NodeId,
+  rank: number,
+  direction: "up" | "down"
+) {
+  const stack = [{ node, rank }];
+
+  while (stack.length > 0) {
+    const { node, rank } = stack.pop()!;
+    const currentRank = ranks.getRank(node)!;
+
+    if (direction === "up" ? currentRank <= rank : currentRank >= rank)
+      continue;
+
+    ranks.set(node, rank);
+    if (direction === "up")
+      (graph.inEdges(node) || []).forEach((edge) => {
+        stack.push({ node: edge.v, rank: rank - graph.edge(edge).minlen });
+      });
+    else
+      (graph.outEdges(node) || []).forEach((edge) => {
+        stack.push({ node: edge.w, rank: rank + graph.edge(edge).minlen });
+      });
+  }
+}
+
+/**
+ * Returns the nodes reachable from a list of nodes by following edges up or
+ * down, including the nodes themselves.
+ *
+ * @param graph A graph object.
+ * @param nodes The nodes to start from.
+ * @param direction The direction to follow edges in.
+ * @returns The reachable nodes.
+ */
+function getReachableNodes(
+  graph: LayoutGraph,
+  nodes: NodeId[],
+  direction: "up" | "down"
+) {
+  const reachableNodes = new Set<NodeId>();
+  const stack = [...nodes];
+
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+
+    if (reachableNodes.has(node)) continue;
+
+    reachableNodes.add(node);
+    stack.push(
+      ...((direction === "up"
+        ? graph.predecessors(node)
+        : graph.successors(node)) || [])
+    );
+  }
+
+  return reachableNodes;
+}
+
+/**
+ * Returns the nodes of the input graph a node stands for, i.e., the node itself
+ * or the subnodes of a meta node, recursively.
+ *
+ * @param graph A graph object.
+ * @param node A node.
+ * @returns The nodes.
+ */
+function getOriginalNodes(graph: LayoutGraph, node: NodeId): NodeId[] {
+  const getSubnodes = (
+    node: NodeId,
+    label: LayoutNodeLabel | undefined
+  ): NodeId[] =>
+    label?.subnodeData
+      ? Object.entries(label.subnodeData).flatMap(([subnode, subnodeLabel]) =>
+          getSubnodes(subnode, subnodeLabel)
+        )
+      : [node];
+
+  return getSubnodes(node, graph.node(node));
+}
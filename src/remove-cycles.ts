@@ -1,6 +1,28 @@
 import { Edge } from "graphlib";
-import Graph from "./graph.js";
-import { buildSimpleGraph, EdgeAndLabel, NodeId } from "./utils.js";
+import { LayoutGraph } from "./graph.js";
+import {
+  buildSimpleGraph,
+  createLayoutGraph,
+  EdgeAndLabel,
+  NodeId,
+} from "./utils.js";
+
+/**
+ * The largest strongly connected component for which the exact strategy
+ * searches for a minimum feedback arc set. Larger components fall back to the
+ * greedy heuristic.
+ */
+export const MAX_EXACT_COMPONENT_SIZE = 16;
+
+/**
+ * The original versions of the edges modified during cycle removal.
+ */
+export interface ModifiedEdges {
+  /** Loops, which were deleted. */
+  deletedLoops: EdgeAndLabel[];
+  /** Edges that were reversed, in their original direction. */
+  reversedEdges: EdgeAndLabel[];
+}
 
 /**
  * Removes cycles from the input graph by reversing edges and, in case of loops,
@@ -15,14 +37,30 @@ import { buildSimpleGraph, EdgeAndLabel, NodeId } from "./utils.js";
  * and returned so that they may be restored at a later stage. The run time is
  * at least as good as *O(|V| + |E|)*.
  *
+ * The `cycleRemoval` option of the graph label selects a different strategy:
+ * `"dfs"` reverses the back edges of a depth-first search in input order, and
+ * `"exact"` reverses a minimum feedback arc set (see
+ * {@link getMinimumFASOrder}).
+ *
+ * Edges whose label has `preserveDirection` set are never reversed by any
+ * strategy, as long as they do not form a cycle among themselves.
+ *
  * @see
  * [A fast and effective heuristic for the feedback arc set problem](https://www.sciencedirect.com/science/article/abs/pii/002001909390079O)
  *
  * @param graph A graph object. Must be directed.
  * @returns The original version of all modified edges.
  */
-export default function removeCycles(graph: Graph) {
+export default function removeCycles(graph: LayoutGraph): ModifiedEdges {
+  const strategy = graph.graph()?.cycleRemoval;
+
+  if (strategy === "dfs")
+    return handleEdgesInOrder(graph, getDepthFirstOrder(graph));
+  if (strategy === "exact")
+    return handleEdgesInOrder(graph, getMinimumFASOrder(graph));
+
   const graphCopy = buildSimpleGraph(graph);
+  markPinnedEdges(graph, graphCopy);
   const { nodes0, nodes1 } = greedilyGetFS(graphCopy);
   const modifiedEdges = handleEdges(graph, nodes0, nodes1);
 
@@ -39,12 +77,13 @@ export default function removeCycles(graph: Graph) {
  * sets in such a way that it imposes a partial linear ordering. As it is
  * greedy, it may not find the optimal solution, but it always implicitly
  * produces a feedback set (FS): the set of edges going *against the flow*,
- * i.e., from `nodes1` to `nodes0`.
+ * i.e., from `nodes1` to `nodes0`. Nodes with pinned in-edges are not chosen
+ * as maximum nodes, so that pinned edges never go against the flow.
  *
  * @param graph A graph object. Must be directed.
  * @returns Two node sets imposing a partial linear ordering.
  */
-export function greedilyGetFS(graph: Graph) {
+export function greedilyGetFS(graph: LayoutGraph) {
   const nodes0: NodeId[] = [];
   const nodes1: NodeId[] = [];
 
@@ -66,7 +105,7 @@ export function greedilyGetFS(graph: Graph) {
     }
 
     if (graph.nodeCount() > 0) {
-      const maxNode = getMaxNode(graph);
+      const maxNode = getMaxNode(graph, getUnpinnedNodes(graph));
       graph.removeNode(maxNode);
       nodes0.push(maxNode);
     }
@@ -75,17 +114,345 @@ export function greedilyGetFS(graph: Graph) {
   return { nodes0, nodes1 };
 }
 
+/**
+ * Orders the nodes by a depth-first search that visits nodes and their
+ * successors in input order. Exactly the back edges of the search go against
+ * the returned order, so the result is deterministic for a given input.
+ *
+ * @param graph A graph object. Must be directed.
+ * @returns The nodes in reverse postorder.
+ */
+export function getDepthFirstOrder(graph: LayoutGraph) {
+  const postorder = getPostorder(
+    graph.nodes(),
+    (node) => graph.successors(node) || [],
+    new Set(),
+    // Entering a node below a node it reaches by pinned edges would turn one
+    // of these edges into a back edge, so the node is left for later
+    (node, stack) =>
+      getPinnedDescendants(graph, node).some((descendant) =>
+        stack.has(descendant)
+      )
+  );
+
+  return postorder.reverse();
+}
+
+/**
+ * Orders the nodes such that as few edges as possible go against the order,
+ * i.e., such that reversing them removes all cycles with a minimum feedback arc
+ * set. Parallel edges count separately, loops are ignored.
+ *
+ * @remarks
+ * Cycles never span several strongly connected components, so components are
+ * ordered topologically and each is solved on its own by branch and bound:
+ * nodes are placed from left to right, and a partial order is abandoned as
+ * soon as its cost, plus the edges that must go backward between the remaining
+ * nodes anyway, reaches the best complete order found so far. The search is
+ * exponential in the size of a component, so components of more than
+ * {@link MAX_EXACT_COMPONENT_SIZE} nodes are ordered by the greedy heuristic
+ * instead.
+ *
+ * @param graph A graph object. Must be directed.
+ * @returns The nodes in an order with a minimum number of backward edges.
+ */
+export function getMinimumFASOrder(graph: LayoutGraph) {
+  return getStronglyConnectedComponents(graph).flatMap((component) => {
+    if (component.length === 1) return component;
+
+    const greedyOrder = getGreedyOrder(graph, component);
+
+    if (component.length > MAX_EXACT_COMPONENT_SIZE) return greedyOrder;
+    return searchMinimumFASOrder(graph, component, greedyOrder);
+  });
+}
+
+/**
+ * Returns the strongly connected components of the graph in topological order
+ * using Kosaraju's algorithm.
+ *
+ * @param graph A graph object. Must be directed.
+ * @returns The components, each a list of nodes.
+ */
+export function getStronglyConnectedComponents(graph: LayoutGraph) {
+  const visited = new Set<NodeId>();
+  const components: NodeId[][] = [];
+  const finishingOrder = getPostorder(
+    graph.nodes(),
+    (node) => graph.successors(node) || []
+  ).reverse();
+
+  finishingOrder.forEach((node) => {
+    if (visited.has(node)) return;
+
+    const component = getPostorder(
+      [node],
+      (current) => graph.predecessors(current) || [],
+      visited
+    );
+    components.push(component.reverse());
+  });
+
+  return components;
+}
+
+/**
+ * Runs an iterative depth-first search and returns the nodes in postorder.
+ *
+ * @param roots The nodes to start searching from, in order.
+ * @param getNeighbors Returns the nodes to visit after a node.
+ * @param visited Nodes that must not be visited. Is extended by the search.
+ * @param isDeferred Whether a node must not be entered from the nodes on the
+ * stack yet. Roots are always entered.
+ * @returns The visited nodes in postorder.
+ */
+function getPostorder(
+  roots: NodeId[],
+  getNeighbors: (node: NodeId) => NodeId[],
+  visited = new Set<NodeId>(),
+  isDeferred?: (node: NodeId, stack: Set<NodeId>) => boolean
+) {
+  const postorder: NodeId[] = [];
+  const stackNodes = new Set<NodeId>();
+
+  roots.forEach((root) => {
+    if (visited.has(root)) return;
+
+    const stack = [{ node: root, neighbors: getNeighbors(root), index: 0 }];
+    visited.add(root);
+    stackNodes.add(root);
+
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+
+      if (top.index < top.neighbors.length) {
+        const neighbor = top.neighbors[top.index++];
+
+        if (visited.has(neighbor) || isDeferred?.(neighbor, stackNodes))
+          continue;
+        visited.add(neighbor);
+        stackNodes.add(neighbor);
+        stack.push({
+          node: neighbor,
+          neighbors: getNeighbors(neighbor),
+          index: 0,
+        });
+      } else {
+        postorder.push(top.node);
+        stackNodes.delete(top.node);
+        stack.pop();
+      }
+    }
+  });
+
+  return postorder;
+}
+
+/**
+ * Orders the nodes of a component with the greedy heuristic: `nodes0` in order,
+ * followed by `nodes1` in reverse.
+ *
+ * @param graph A graph object. Must be directed.
+ * @param component The nodes to order.
+ * @returns The ordered nodes.
+ */
+function getGreedyOrder(graph: LayoutGraph, component: NodeId[]) {
+  const subgraph = createLayoutGraph();
+
+  component.forEach((node) => {
+    subgraph.setNode(node);
+  });
+  graph.edges().forEach(({ v, w }) => {
+    if (subgraph.hasNode(v) && subgraph.hasNode(w)) subgraph.setEdge(v, w);
+  });
+  markPinnedEdges(graph, subgraph);
+
+  const { nodes0, nodes1 } = greedilyGetFS(subgraph);
+
+  return [...nodes0, ...nodes1.reverse()];
+}
+
+/**
+ * Searches the order of a component with the fewest backward edges by branch
+ * and bound. Orders in which a pinned edge goes backward are not considered.
+ *
+ * @param graph A graph object. Must be directed.
+ * @param component The nodes to order.
+ * @param initialOrder An order of the nodes used as the first upper bound.
+ * @returns The ordered nodes.
+ */
+function searchMinimumFASOrder(
+  graph: LayoutGraph,
+  component: NodeId[],
+  initialOrder: NodeId[]
+) {
+  const indices = new Map(component.map((node, index) => [node, index]));
+  const edgeCounts = component.map(() => component.map(() => 0));
+  const pinnedEdges = component.map(() => component.map(() => false));
+
+  graph.edges().forEach((edge) => {
+    const source = indices.get(edge.v);
+    const target = indices.get(edge.w);
+
+    if (source === undefined || target === undefined || source === target)
+      return;
+    edgeCounts[source][target]++;
+    if (isPinned(graph, edge)) pinnedEdges[source][target] = true;
+  });
+
+  const getCost = (order: number[]) =>
+    order.reduce(
+      (cost, node, position) =>
+        cost +
+        order
+          .slice(position + 1)
+          .reduce((sum, laterNode) => sum + edgeCounts[laterNode][node], 0),
+      0
+    );
+  const getLowerBound = (remaining: number[]) =>
+    remaining.reduce(
+      (bound, node, position) =>
+        bound +
+        remaining
+          .slice(position + 1)
+          .reduce(
+            (sum, laterNode) =>
+              sum +
+              Math.min(
+                edgeCounts[node][laterNode],
+                edgeCounts[laterNode][node]
+              ),
+            0
+          ),
+      0
+    );
+
+  let bestOrder = initialOrder.map((node) => indices.get(node)!);
+  let bestCost = getCost(bestOrder);
+  // Cheapest partial order found so far for each set of placed nodes
+  const bestPartialCosts = new Map<number, number>();
+
+  const search = (order: number[], placed: number, cost: number) => {
+    const remaining = component
+      .map((_, index) => index)
+      .filter((index) => !(placed & (1 << index)));
+
+    if (!remaining.length) {
+      if (cost < bestCost) {
+        bestOrder = order;
+        bestCost = cost;
+      }
+      return;
+    }
+    if (cost + getLowerBound(remaining) >= bestCost) return;
+    if ((bestPartialCosts.get(placed) ?? Infinity) <= cost) return;
+    bestPartialCosts.set(placed, cost);
+
+    remaining
+      .filter((node) =>
+        remaining.every((otherNode) => !pinnedEdges[otherNode][node])
+      )
+      .map((node) => ({
+        node,
+        addedCost: remaining.reduce(
+          (sum, otherNode) => sum + edgeCounts[otherNode][node],
+          0
+        ),
+      }))
+      .sort((a, b) => a.addedCost - b.addedCost)
+      .forEach(({ node, addedCost }) => {
+        search([...order, node], placed | (1 << node), cost + addedCost);
+      });
+  };
+
+  search([], 0, 0);
+
+  return bestOrder.map((index) => component[index]);
+}
+
+/**
+ * Whether the direction of an edge must be preserved during cycle removal.
+ *
+ * @param graph A graph object.
+ * @param edge An edge.
+ * @returns `true` if the label of the edge has `preserveDirection` set.
+ */
+export function isPinned(graph: LayoutGraph, edge: Edge) {
+  return Boolean(graph.edge(edge)?.preserveDirection);
+}
+
+/**
+ * Copies the `preserveDirection` flag of pinned edges to a simple copy of (a
+ * part of) the graph. Parallel edges are pinned in the copy if any of them is.
+ *
+ * @param graph A graph object.
+ * @param graphCopy A simple copy of the graph.
+ */
+function markPinnedEdges(graph: LayoutGraph, graphCopy: LayoutGraph) {
+  graph.edges().forEach((edge) => {
+    const { v, w } = edge;
+
+    if (isPinned(graph, edge) && graphCopy.hasEdge(v, w))
+      graphCopy.setEdge(v, w, { preserveDirection: true });
+  });
+}
+
+/**
+ * Returns the nodes without pinned in-edges from other nodes, or all nodes if
+ * there are none, i.e., if pinned edges form a cycle.
+ *
+ * @param graph A graph object. Must be directed.
+ * @returns The nodes that may be placed first without reversing pinned edges.
+ */
+function getUnpinnedNodes(graph: LayoutGraph) {
+  const unpinnedNodes = graph
+    .nodes()
+    .filter((node) =>
+      (graph.inEdges(node) || []).every(
+        (edge) => edge.v === edge.w || !isPinned(graph, edge)
+      )
+    );
+
+  return unpinnedNodes.length ? unpinnedNodes : graph.nodes();
+}
+
+/**
+ * Returns the nodes reachable from a node by pinned edges, excluding the node
+ * itself unless it lies on a cycle of pinned edges.
+ *
+ * @param graph A graph object. Must be directed.
+ * @param node The node.
+ * @returns The reachable nodes.
+ */
+function getPinnedDescendants(graph: LayoutGraph, node: NodeId) {
+  const descendants = new Set<NodeId>();
+  const queue = [node];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+
+    (graph.outEdges(current) || []).forEach((edge) => {
+      if (descendants.has(edge.w) || !isPinned(graph, edge)) return;
+      descendants.add(edge.w);
+      queue.push(edge.w);
+    });
+  }
+
+  return [...descendants];
+}
+
 /**
  * Returns the node of maximum degree. In this context, *degree* is defined as
  * the difference between the outdegree and the indegree of a node.
  *
  * @param graph A graph object. Must be directed.
+ * @param candidates The nodes to choose from. Defaults to all nodes.
  * @returns The node with the highest degree.
  */
-export function getMaxNode(graph: Graph) {
+export function getMaxNode(graph: LayoutGraph, candidates = graph.nodes()) {
   let maxNode = { nodeId: "", degree: -Infinity };
 
-  graph.nodes().forEach((nodeId) => {
+  candidates.forEach((nodeId) => {
     const outEdges = graph.outEdges(nodeId) || [];
     const inEdges = graph.inEdges(nodeId) || [];
     const degree = outEdges.length - inEdges.length;
@@ -107,7 +474,11 @@ export function getMaxNode(graph: Graph) {
  * @param nodes1 The second set of nodes.
  * @returns The original version of all modified edges.
  */
-export function handleEdges(graph: Graph, nodes0: NodeId[], nodes1: NodeId[]) {
+export function handleEdges(
+  graph: LayoutGraph,
+  nodes0: NodeId[],
+  nodes1: NodeId[]
+): ModifiedEdges {
   const deletedLoops: EdgeAndLabel[] = [];
   const reversedEdges: EdgeAndLabel[] = [];
 
@@ -125,6 +496,36 @@ export function handleEdges(graph: Graph, nodes0: NodeId[], nodes1: NodeId[]) {
   return { deletedLoops, reversedEdges };
 }
 
+/**
+ * Reverses edges that go against the given node order, deletes loops and
+ * returns the original version of all modified edges.
+ *
+ * @param graph A graph object. Must be directed.
+ * @param nodeOrder All nodes of the graph in order.
+ * @returns The original version of all modified edges.
+ */
+export function handleEdgesInOrder(
+  graph: LayoutGraph,
+  nodeOrder: NodeId[]
+): ModifiedEdges {
+  const positions = new Map(nodeOrder.map((node, index) => [node, index]));
+  const deletedLoops: EdgeAndLabel[] = [];
+  const reversedEdges: EdgeAndLabel[] = [];
+
+  for (const edge of graph.edges()) {
+    const deletedLoop = deleteLoop(graph, edge);
+    if (deletedLoop) {
+      deletedLoops.push(deletedLoop);
+      continue;
+    }
+
+    if (positions.get(edge.v)! > positions.get(edge.w)!)
+      reversedEdges.push(reverse(graph, edge));
+  }
+
+  return { deletedLoops, reversedEdges };
+}
+
 /**
  * If the edge is a loop, deletes it from the graph and returns it. Returns
  * `undefined` otherwise.
@@ -133,7 +534,7 @@ export function handleEdges(graph: Graph, nodes0: NodeId[], nodes1: NodeId[]) {
  * @param edge An edge.
  * @returns The original edge if it was a loop.
  */
-export function deleteLoop(graph: Graph, edge: Edge) {
+export function deleteLoop(graph: LayoutGraph, edge: Edge) {
   const { v, w } = edge;
 
   if (v === w) {
@@ -146,8 +547,8 @@ export function deleteLoop(graph: Graph, edge: Edge) {
 }
 
 /**
- * If the edge goes from `nodes1` to `nodes0`, reverses it in the graph and
- * returns the original edge. Returns `undefined` otherwise.
+ * If the edge goes from `nodes1` to `nodes0` and is not pinned, reverses it in
+ * the graph and returns the original edge. Returns `undefined` otherwise.
  *
  * @param graph A graph object. Must be directed.
  * @param nodes0 The first set of nodes.
@@ -156,20 +557,31 @@ export function deleteLoop(graph: Graph, edge: Edge) {
  * @returns The original edge if it was reversed.
  */
 export function reverseEdge(
-  graph: Graph,
+  graph: LayoutGraph,
   nodes0: NodeId[],
   nodes1: NodeId[],
   edge: Edge
 ) {
   const { v, w } = edge;
 
-  if (nodes1.includes(v) && nodes0.includes(w)) {
-    const edgeLabel = graph.edge(edge);
-    const originalEdge = { ...edge, label: edgeLabel };
-    const reversedEdge = { ...edge, v: w, w: v };
+  if (nodes1.includes(v) && nodes0.includes(w) && !isPinned(graph, edge))
+    return reverse(graph, edge);
+}
 
-    graph.removeEdge(edge);
-    graph.setEdge(reversedEdge, edgeLabel);
-    return originalEdge;
-  }
+/**
+ * Reverses an edge in the graph and returns the original edge.
+ *
+ * @param graph A graph object. Must be directed.
+ * @param edge An edge.
+ * @returns The original edge.
+ */
+function reverse(graph: LayoutGraph, edge: Edge) {
+  const { v, w } = edge;
+  const edgeLabel = graph.edge(edge);
+  const originalEdge = { ...edge, label: edgeLabel };
+  const reversedEdge = { ...edge, v: w, w: v };
+
+  graph.removeEdge(edge);
+  graph.setEdge(reversedEdge, edgeLabel);
+  return originalEdge;
 }
@@ -1,4 +1,4 @@
-import Graph from "./graph.js";
+import { LayoutGraph } from "./graph.js";
 import {
   NodeId,
   buildSimpleGraph,
@@ -8,15 +8,15 @@ import {
 
 type Direction = "right down" | "right up" | "left down" | "left up";
 type BiasedGraphTuple = readonly [
-  leftTopBiasedGraph: Graph,
-  leftBottomBiasedGraph: Graph,
-  rightTopBiasedGraph: Graph,
-  rightBottomBiasedGraph: Graph
+  leftTopBiasedGraph: LayoutGraph,
+  leftBottomBiasedGraph: LayoutGraph,
+  rightTopBiasedGraph: LayoutGraph,
+  rightBottomBiasedGraph: LayoutGraph
 ];
 
 const REQUIRED_PROPERTIES = {
-  nodeProperties: ["width"],
-  edgeProperties: ["isConflicted"],
+  nodeProperties: ["width", "isDummyNode", "loopWidth"],
+  edgeProperties: ["isConflicted", "weight"],
 };
 const ITERATION_ORDERS: readonly Direction[] = [
   "right down",
@@ -43,7 +43,10 @@ const ITERATION_ORDERS: readonly Direction[] = [
  * @param graph A graph object. Must be directed and acyclic.
  * @param graphMatrix A matrix imposing a layering and ordering on the nodes.
  */
-export default function straightenEdges(graph: Graph, graphMatrix: NodeId[][]) {
+export default function straightenEdges(
+  graph: LayoutGraph,
+  graphMatrix: NodeId[][]
+) {
   restoreConjunctNodes(graph, graphMatrix);
   const conjunctNodes = mergeConjunctNodes(graph);
   markConflicts(graph, graphMatrix);
@@ -65,7 +68,8 @@ export default function straightenEdges(graph: Graph, graphMatrix: NodeId[][]) {
       biasedGraph,
       graphMatrix,
       horizontalDirection,
-      graph.graph().nodesep
+      graph.graph().nodesep,
+      graph.graph().edgesep
     );
   });
 
@@ -74,13 +78,14 @@ export default function straightenEdges(graph: Graph, graphMatrix: NodeId[][]) {
 }
 
 /**
- * Restores conjunct nodes to their original, pre-crossing-minimisation state.
- * Also calculates their width.
+ * Restores conjunct nodes to their original, pre-crossing-minimisation state
+ * and replaces their delimited subnodes in the node matrix. Also calculates
+ * their width.
  *
  * @param graph A graph object.
  * @param graphMatrix A node matrix.
  */
-function restoreConjunctNodes(graph: Graph, graphMatrix: NodeId[][]) {
+function restoreConjunctNodes(graph: LayoutGraph, graphMatrix: NodeId[][]) {
   const conjunctDummyNodes = graph
     .nodes()
     .filter((node) => graph.node(node).isConjunctDummyNode);
@@ -88,7 +93,7 @@ function restoreConjunctNodes(graph: Graph, graphMatrix: NodeId[][]) {
   const endDummyNodes: NodeId[] = [];
 
   conjunctDummyNodes.forEach((node) => {
-    if (node.slice(0, 5) === "start") startDummyNodes.push(node);
+    if (graph.node(node).conjunctNode) startDummyNodes.push(node);
     else endDummyNodes.push(node);
   });
 
@@ -96,30 +101,36 @@ function restoreConjunctNodes(graph: Graph, graphMatrix: NodeId[][]) {
     const { conjunctNode } = graph.node(node);
     graph.setNode(conjunctNode.id, conjunctNode.label);
 
-    const layerIndex = graph.node(node).y / graph.graph().ranksep;
-    const layer = graphMatrix[layerIndex];
+    const layer = graphMatrix.find((layer) => layer.includes(node))!;
     const nodeIndex = layer.indexOf(node);
     let index = nodeIndex + 1;
     let currentNode = layer[index];
     let conjunctNodeWidth = 0;
-    const conjunctTarget = conjunctNode.id.substring(3);
-    const { conjunctEdgeLabel } = graph.edge(currentNode, conjunctTarget);
+    let conjunctNodeHeight = 0;
+    const conjunctTarget = conjunctNode.target;
 
     while (!graph.node(currentNode).isConjunctDummyNode) {
       graph.removeEdge(currentNode, conjunctTarget);
       graph.setParent(currentNode, conjunctNode.id);
 
       const currentNodeWith: number = graph.node(currentNode).width;
+      const currentNodeHeight: number = graph.node(currentNode).height || 0;
+      const currentLoopWidth: number = graph.node(currentNode).loopWidth || 0;
 
       index++;
       currentNode = layer[index];
-      conjunctNodeWidth += currentNodeWith + graph.graph().nodesep;
+      conjunctNodeWidth +=
+        currentNodeWith + currentLoopWidth + graph.graph().nodesep;
+      conjunctNodeHeight = Math.max(conjunctNodeHeight, currentNodeHeight);
     }
 
     conjunctNodeWidth -= graph.graph().nodesep;
 
     graph.node(conjunctNode.id).width = conjunctNodeWidth;
-    graph.setEdge(conjunctNode.id, conjunctTarget, conjunctEdgeLabel);
+    graph.node(conjunctNode.id).height = conjunctNodeHeight;
+    graph.node(conjunctNode.id).conjunctTarget = conjunctTarget;
+    graph.setEdge(conjunctNode.id, conjunctTarget, conjunctNode.edgeLabel);
+    layer.splice(nodeIndex, index - nodeIndex + 1, conjunctNode.id);
     graph.removeNode(node);
   });
 
@@ -137,9 +148,12 @@ function restoreConjunctNodes(graph: Graph, graphMatrix: NodeId[][]) {
  * @param graph A graph object.
  * @param graphMatrix A node matrix.
  */
-function markConflicts(graph: Graph, graphMatrix: NodeId[][]) {
+function markConflicts(graph: LayoutGraph, graphMatrix: NodeId[][]) {
   graph.edges().forEach((edge) => {
-    graph.setEdge(edge, { isConflicted: false });
+    const edgeLabel = graph.edge(edge);
+
+    if (edgeLabel) edgeLabel.isConflicted = false;
+    else graph.setEdge(edge, { isConflicted: false });
   });
 
   for (let layerIndex = 1; layerIndex < graphMatrix.length - 2; layerIndex++) {
@@ -151,16 +165,18 @@ function markConflicts(graph: Graph, graphMatrix: NodeId[][]) {
       const node0 = layer[nodeIndex];
 
       if (graph.node(node0).isConjunctNode) {
-        const targetNode = node0.substring(3);
+        const targetNode = graph.node(node0).conjunctTarget;
 
         for (const edge of graph.outEdges(node0)!) {
           if (edge.w === targetNode) continue;
           graph.edge(edge).isConflicted = true;
         }
       } else if (graph.node(node0).isWarrantDummySource) {
-        const [targetSource, targetSink] = node0.split(" -> ");
+        const { warrantNodes } = graph.node(node0);
+        const { v: targetSource, w: targetSink } =
+          warrantNodes.sink.label.targetEdge;
 
-        for (const edge of graph.outEdges(targetSource)!) {
+        for (const edge of graph.outEdges(targetSource) || []) {
           if (edge.w === targetSink) continue;
           graph.edge(edge).isConflicted = true;
         }
@@ -212,7 +228,7 @@ function markConflicts(graph: Graph, graphMatrix: NodeId[][]) {
  * @param iterationOrder The order in which to iterate over the nodes.
  */
 function alignVertically(
-  graph: Graph,
+  graph: LayoutGraph,
   graphMatrix: NodeId[][],
   iterationOrder: Direction
 ) {
@@ -252,9 +268,15 @@ function alignVertically(
         neighbors = graphMatrix[neighborLayerIndex].filter((node) =>
           neighbors.includes(node)
         );
-        const maxNeighborIndex = neighbors.length - 1;
-        const leftNeighborIndex = Math.floor(maxNeighborIndex / 2);
-        const rightNeighborIndex = Math.ceil(maxNeighborIndex / 2);
+        const weights = neighbors.map(
+          (neighbor): number =>
+            graph.edge(
+              isTopBiased ? neighbor : node,
+              isTopBiased ? node : neighbor
+            ).weight ?? 1
+        );
+        const [leftNeighborIndex, rightNeighborIndex] =
+          getWeightedMedianIndices(weights);
 
         for (
           let neighborIndex = isLeftBiased
@@ -306,6 +328,34 @@ function alignVertically(
   }
 }
 
+/**
+ * Finds the indices of the left and right weighted medians of a list of
+ * weights. The left median is the first index at which the cumulative weight
+ * reaches half the total weight, and the right median is the last index from
+ * which the remaining weight does. With equal weights, these are the ordinary
+ * lower and upper medians.
+ *
+ * @param weights A list of non-negative weights.
+ * @returns The left and right median indices.
+ */
+function getWeightedMedianIndices(weights: number[]) {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const maxIndex = weights.length - 1;
+
+  if (totalWeight <= 0)
+    return [Math.floor(maxIndex / 2), Math.ceil(maxIndex / 2)] as const;
+
+  let leftIndex = 0;
+  let rightIndex = maxIndex;
+  let leftWeight = weights[leftIndex];
+  let rightWeight = weights[rightIndex];
+
+  while (leftWeight < totalWeight / 2) leftWeight += weights[++leftIndex];
+  while (rightWeight < totalWeight / 2) rightWeight += weights[--rightIndex];
+
+  return [leftIndex, rightIndex] as const;
+}
+
 /**
  * Assigns *x*-coordinates to nodes based on their alignment. Does three passes
  * over the nodes: First, it assigns default values to all nodes; second, it
@@ -316,12 +366,15 @@ function alignVertically(
  * @param graphMatrix A node matrix.
  * @param iterationOrder The direction in which to iterate over the nodes.
  * @param minNodeSeperation Minimum distance between nodes.
+ * @param minEdgeSeperation Minimum distance between dummy nodes of long edges
+ * and their neighbors.
  */
 function compactHorizontally(
-  graph: Graph,
+  graph: LayoutGraph,
   graphMatrix: NodeId[][],
   iterationOrder: "right" | "left",
-  minNodeSeperation: number
+  minNodeSeperation: number,
+  minEdgeSeperation: number
 ) {
   const defaultXShift = iterationOrder === "right" ? Infinity : -Infinity;
 
@@ -332,7 +385,14 @@ function compactHorizontally(
 
   graph.nodes().forEach((node) => {
     if (graph.node(node).blockRoot === node) {
-      placeBlock(graph, graphMatrix, node, iterationOrder, minNodeSeperation);
+      placeBlock(
+        graph,
+        graphMatrix,
+        node,
+        iterationOrder,
+        minNodeSeperation,
+        minEdgeSeperation
+      );
     }
   });
 
@@ -355,19 +415,24 @@ function compactHorizontally(
 /**
  * Determines the relative coordinates of block roots with respect to their
  * corresponding classes. Uses a recursive version of longest path layering.
+ * Neighbouring nodes are separated by their own widths rather than those of
+ * their block roots, since label dummy nodes can be wider than the roots.
  *
  * @param graph A graph object.
  * @param graphMatrix A node matrix.
  * @param node A node ID.
  * @param iterationOrder The direction in which to iterate over the nodes.
  * @param minNodeSeperation Minimum distance between nodes.
+ * @param minEdgeSeperation Minimum distance between dummy nodes of long edges
+ * and their neighbors.
  */
 function placeBlock(
-  graph: Graph,
+  graph: LayoutGraph,
   graphMatrix: NodeId[][],
   node: NodeId,
   iterationOrder: "right" | "left",
-  minNodeSeperation: number
+  minNodeSeperation: number,
+  minEdgeSeperation: number
 ) {
   if (graph.node(node).x !== undefined) return;
 
@@ -395,41 +460,40 @@ function placeBlock(
         graphMatrix,
         previousNodeRoot,
         iterationOrder,
-        minNodeSeperation
+        minNodeSeperation,
+        minEdgeSeperation
       );
 
       if (graph.node(node).classSink === node)
         graph.node(node).classSink = graph.node(previousNodeRoot).classSink;
 
-      const nodeLabel = graph.node(node);
-      const previousNodeLabel = graph.node(previousNodeRoot);
-      const nodeX: number = nodeLabel.x;
-      const previousNodeX: number = previousNodeLabel.x;
-      const nodeWidth: number = nodeLabel.width;
-      const previousNodeWidth: number = previousNodeLabel.width;
-      const sign = isLeftBiased ? 1 : -1;
+      const nodeX: number = graph.node(node).x;
+      const previousNodeX: number = graph.node(previousNodeRoot).x;
+      const nodeWidth: number = graph.node(currentNode).width;
+      const previousNodeWidth: number = graph.node(previousNode).width;
+      const involvesDummyNode =
+        graph.node(currentNode).isDummyNode ||
+        graph.node(previousNode).isDummyNode;
+      const leftNode = isLeftBiased ? previousNode : currentNode;
+      const loopWidth: number = graph.node(leftNode).loopWidth || 0;
+      const seperation =
+        (nodeWidth + previousNodeWidth) / 2 +
+        loopWidth +
+        (involvesDummyNode ? minEdgeSeperation : minNodeSeperation);
 
       if (
         graph.node(node).classSink !== graph.node(previousNodeRoot).classSink
       ) {
         const previousNodeSink = graph.node(previousNodeRoot).classSink;
-        const pickValue = isLeftBiased ? Math.min : Math.max;
-        const seperation =
-          nodeX -
-          nodeWidth -
-          (previousNodeX + previousNodeWidth) -
-          minNodeSeperation;
-        const xShift = pickValue(
-          graph.node(previousNodeSink).xShift,
-          seperation * sign
-        );
-        graph.node(previousNodeSink).xShift = xShift;
+        const previousXShift = graph.node(previousNodeSink).xShift;
+
+        graph.node(previousNodeSink).xShift = isLeftBiased
+          ? Math.min(previousXShift, nodeX - previousNodeX - seperation)
+          : Math.max(previousXShift, nodeX - previousNodeX + seperation);
       } else {
-        const pickValue = isLeftBiased ? Math.max : Math.min;
-        const seperation =
-          previousNodeX + previousNodeWidth + minNodeSeperation;
-        const newNodeX = pickValue(nodeX, seperation * sign);
-        graph.node(node).x = newNodeX;
+        graph.node(node).x = isLeftBiased
+          ? Math.max(nodeX, previousNodeX + seperation)
+          : Math.min(nodeX, previousNodeX - seperation);
       }
     }
     currentNode = graph.node(currentNode).nextBlockNode;
@@ -454,8 +518,9 @@ function alignToMinWidthGraph(biasedGraphs: BiasedGraphTuple) {
     graph.nodes().forEach((node) => {
       const nodeX: number = graph.node(node).x;
       const nodeWidth: number = graph.node(node).width;
+      const loopWidth: number = graph.node(node).loopWidth || 0;
       const leftBorderX = nodeX - nodeWidth / 2;
-      const rightBorderX = nodeX + nodeWidth / 2;
+      const rightBorderX = nodeX + nodeWidth / 2 + loopWidth;
 
       if (leftBorderX < minGraphX) minGraphX = leftBorderX;
       if (rightBorderX > maxGraphX) maxGraphX = rightBorderX;
@@ -494,7 +559,7 @@ function alignToMinWidthGraph(biasedGraphs: BiasedGraphTuple) {
  * @param biasedGraphs Four biased graphs.
  */
 function balanceAndAssignValues(
-  graph: Graph,
+  graph: LayoutGraph,
   biasedGraphs: BiasedGraphTuple,
   conjunctNodes: NodeId[]
 ) {
@@ -512,7 +577,8 @@ function balanceAndAssignValues(
     const nodeLabel = graph.node(node);
     nodeLabel.x = newNodeX;
     const leftBorderX = newNodeX - nodeLabel.width / 2;
-    const rightBorderX = newNodeX + nodeLabel.width / 2;
+    const rightBorderX =
+      newNodeX + nodeLabel.width / 2 + (nodeLabel.loopWidth || 0);
 
     if (leftBorderX < smallestX) smallestX = leftBorderX;
     if (rightBorderX > largestX) largestX = rightBorderX;
@@ -531,7 +597,11 @@ function balanceAndAssignValues(
       const childLabel = graph.node(child);
       const newNodeX = x + childLabel.width / 2;
       childLabel.x = newNodeX;
-      x = newNodeX + childLabel.width / 2 + graph.graph().nodesep;
+      x =
+        newNodeX +
+        childLabel.width / 2 +
+        (childLabel.loopWidth || 0) +
+        graph.graph().nodesep;
     });
   });
 }
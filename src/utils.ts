@@ -1,17 +1,203 @@
-import { Edge } from "graphlib";
-import Graph from "./graph.js";
+import { Edge, GraphOptions } from "graphlib";
+import Graph, {
+  GraphBase,
+  LayoutGraph,
+  LayoutNodeLabel,
+  LayoutResult,
+  NodeLayout,
+  Point,
+} from "./graph.js";
+import { InvalidOptionError } from "./errors.js";
+import { getLoopWidth } from "./draw-bezier-curves.js";
 
 export type NodeId = string;
+
+/**
+ * The labels of the subnodes of a meta node, by node ID.
+ */
+export type SubnodeData = { [node: NodeId]: LayoutNodeLabel };
 export interface EdgeAndLabel extends Edge {
   label?: any;
 }
 
+interface RoleNode {
+  id: NodeId;
+  host: NodeId;
+  label: any;
+  hostSize: { width: number; height: number };
+  /** Offset of the centre from the left of the backings below the host. */
+  offset?: number;
+  originalEdges: EdgeAndLabel[];
+  redirectedEdges: EdgeAndLabel[];
+}
+
+const nodeIdCounters = new WeakMap<object, number>();
+
 interface GraphProperties {
   graphProperties?: string[];
   nodeProperties?: string[];
   edgeProperties?: string[];
 }
 
+/**
+ * The direction in which ranks are laid out: top-to-bottom, bottom-to-top,
+ * left-to-right or right-to-left.
+ */
+export type RankDirection =
+  | "tb"
+  | "bt"
+  | "lr"
+  | "rl"
+  | "TB"
+  | "BT"
+  | "LR"
+  | "RL";
+
+/**
+ * Whether premises are placed before or after the claims they support, see
+ * {@link LayoutOptions.orientation}.
+ */
+export type Orientation = "premises-above" | "conclusion-above";
+
+/**
+ * Measure by which the widths of ranks are balanced, see
+ * {@link LayoutOptions.layerBalancing}.
+ */
+export type LayerBalancing = "width" | "count" | "none";
+
+/**
+ * Heuristic for ordering the nodes within ranks, see
+ * {@link LayoutOptions.crossingMinimisation}.
+ */
+export type CrossingMinimisation = "barycenter" | "median" | "weighted-median";
+
+/**
+ * Strategy for removing cycles, see {@link LayoutOptions.cycleRemoval}.
+ */
+export type CycleRemovalStrategy = "greedy" | "dfs" | "exact";
+
+/**
+ * Algorithm for assigning nodes to ranks, see {@link LayoutOptions.ranker}.
+ */
+export type Ranker = "network-simplex" | "longest-path" | "coffman-graham";
+
+/**
+ * Options for {@link layOutGraph}. An option takes precedence over the
+ * property of the same name on the graph label, which in turn takes precedence
+ * over the default value.
+ */
+export interface LayoutOptions {
+  /**
+   * Gap between the bottom of one layer and the top of the next. Defaults to
+   * `225`.
+   */
+  ranksep?: number;
+  /** Gap between adjacent nodes of a layer. Defaults to `100`. */
+  nodesep?: number;
+  /**
+   * Gap between dummy nodes of long edges and their neighbors. Defaults to
+   * `20`.
+   */
+  edgesep?: number;
+  /** Direction in which ranks are laid out. Defaults to `"tb"`. */
+  rankdir?: RankDirection;
+  /**
+   * Whether premises are placed above the claims they support
+   * (`"premises-above"`) or below them (`"conclusion-above"`), where "above"
+   * follows `rankdir`. Edges, warrants and conjunct nodes keep their meaning,
+   * and edges still point at the claims they support. Rank constraints refer
+   * to ranks in the order they are laid out in both orientations, e.g., a main
+   * claim pinned to rank `"min"` is placed at the top for the `"tb"`
+   * direction. Defaults to `"premises-above"`.
+   */
+  orientation?: Orientation;
+  /** Maximum number of network simplex iterations. Defaults to `100`. */
+  maxrankingloops?: number;
+  /** Maximum number of crossing minimisation sweeps. Defaults to `100`. */
+  maxcrossingloops?: number;
+  /**
+   * The side on which the sources of attacking edges are placed, relative to
+   * the sources of supporting edges with the same target. By default, no side
+   * is enforced.
+   */
+  attackSide?: "left" | "right";
+  /**
+   * Heuristic for ordering the nodes within ranks to reduce edge crossings:
+   * `"barycenter"` sorts nodes by the average position of their neighbors,
+   * while `"median"` and `"weighted-median"` sort them by the median position
+   * and refine the result by swapping adjacent nodes, which is slower but
+   * often leaves fewer crossings in heavily cross-linked graphs. Defaults to
+   * `"barycenter"`.
+   */
+  crossingMinimisation?: CrossingMinimisation;
+  /**
+   * Strategy for choosing the edges that are reversed to remove cycles:
+   * `"greedy"` uses Eades et al.'s heuristic, `"dfs"` reverses the back edges
+   * of a depth-first search in input order, and `"exact"` reverses as few
+   * edges as possible, which is only feasible for small cycles. Defaults to
+   * `"greedy"`.
+   */
+  cycleRemoval?: CycleRemovalStrategy;
+  /**
+   * Algorithm for assigning nodes to ranks: `"network-simplex"` minimises the
+   * total length of edges, `"longest-path"` is faster for huge graphs, and
+   * `"coffman-graham"` limits the number of nodes per rank to
+   * `maxLayerWidth`. Defaults to `"network-simplex"`.
+   */
+  ranker?: Ranker;
+  /**
+   * Maximum number of nodes per rank for the `"coffman-graham"` ranker.
+   * Defaults to the square root of the number of nodes, rounded up.
+   */
+  maxLayerWidth?: number;
+  /**
+   * How nodes that could be placed on several ranks without making edges
+   * longer are spread over these ranks: `"width"` evens out the total widths
+   * of the nodes of each rank, `"count"` evens out the numbers of nodes, and
+   * `"none"` leaves the nodes where the ranker placed them. Defaults to
+   * `"width"`.
+   */
+  layerBalancing?: LayerBalancing;
+}
+
+/**
+ * Creates a graph for internal use during layout. Unlike {@link Graph}, its
+ * `removeEdge` does not also remove conjunct nodes and warrant structures, as
+ * the layout steps restructure these themselves.
+ *
+ * @param options Booleans for setting the graph as directed (default true),
+ * multigraph (default false) and compound (default true).
+ * @returns An empty graph object.
+ */
+export function createLayoutGraph(options?: GraphOptions): LayoutGraph {
+  return new GraphBase({ compound: true, ...options });
+}
+
+/**
+ * Generates an ID for an internal node that is not used by any node of the
+ * graph. The structure the node represents is never encoded in the ID, but
+ * kept in its label, so user node IDs can be any string. IDs are counted per
+ * graph, so they do not depend on other graphs built before.
+ *
+ * @param graph A graph object.
+ * @param prefix A prefix describing the kind of node, for debugging.
+ * @returns An unused node ID.
+ */
+export function uniqueNodeId(
+  graph: { hasNode(node: NodeId): boolean },
+  prefix: string
+): NodeId {
+  let nodeIdCounter = nodeIdCounters.get(graph) ?? 0;
+  let nodeId: NodeId;
+
+  do {
+    nodeId = `_${prefix}${++nodeIdCounter}`;
+  } while (graph.hasNode(nodeId));
+  nodeIdCounters.set(graph, nodeIdCounter);
+
+  return nodeId;
+}
+
 /**
  * Copies the input graph as simply as possible. Only if `properties` is
  * provided, will labels be considered, and then only specified properties
@@ -20,8 +206,11 @@ interface GraphProperties {
  * @param graph A graph object.
  * @returns A simple copy of the graph.
  */
-export function buildSimpleGraph(graph: Graph, properties?: GraphProperties) {
-  const simpleGraph = new Graph();
+export function buildSimpleGraph(
+  graph: LayoutGraph,
+  properties?: GraphProperties
+) {
+  const simpleGraph = createLayoutGraph();
 
   if (!properties) {
     graph.nodes().forEach((node) => {
@@ -128,19 +317,21 @@ export class RankTable {
 
 /**
  * Merges the subnodes of conjunct nodes into a single node with all inedges
- * and outedges of the subnodes. Stores away any labels for later restoration.
+ * and outedges of the subnodes. Stores away any labels and the merged edges
+ * for later restoration.
  *
  * @param graph A graph object.
  * @returns The conjunct nodes.
  */
-export function mergeConjunctNodes(graph: Graph) {
+export function mergeConjunctNodes(graph: LayoutGraph) {
   const conjunctNodes = graph
     .nodes()
     .filter((node) => graph.node(node).isConjunctNode);
 
   conjunctNodes.forEach((node) => {
     const originalEdges: EdgeAndLabel[] = [];
-    const subnodeData: { [node: NodeId]: any } = {};
+    const mergedEdges: Edge[] = [];
+    const subnodeData: SubnodeData = {};
     const subnodes = graph.children(node);
 
     subnodes.forEach((subnode) => {
@@ -151,7 +342,10 @@ export function mergeConjunctNodes(graph: Graph) {
         const { v } = inEdge;
         const edgeLabel = graph.edge(inEdge);
 
-        graph.setEdge(v, node, edgeLabel);
+        if (!graph.hasEdge(v, node)) {
+          graph.setEdge(v, node, edgeLabel);
+          mergedEdges.push({ v, w: node });
+        }
         originalEdges.push({ ...inEdge, label: edgeLabel });
       });
 
@@ -159,7 +353,10 @@ export function mergeConjunctNodes(graph: Graph) {
         const { w } = outEdge;
         const edgeLabel = graph.edge(outEdge);
 
-        graph.setEdge(node, w, edgeLabel);
+        if (!graph.hasEdge(node, w)) {
+          graph.setEdge(node, w, edgeLabel);
+          mergedEdges.push({ v: node, w });
+        }
         originalEdges.push({ ...outEdge, label: edgeLabel });
       });
 
@@ -169,26 +366,34 @@ export function mergeConjunctNodes(graph: Graph) {
 
     graph.node(node).subnodeData = subnodeData;
     graph.node(node).originalEdges = originalEdges;
+    graph.node(node).mergedEdges = mergedEdges;
   });
 
   return conjunctNodes;
 }
 
 /**
- * Splits conjunct nodes by restoring the subnodes and their edges. Provide a
- * rank table to set the ranks of the subnodes.
+ * Splits conjunct nodes by restoring the subnodes and their edges, and removes
+ * the edges that were merged into them. Only these are removed, since the edge
+ * of a conjunct node goes to the dummy node of its label rather than to its
+ * target once edge labels are laid out. Provide a rank table to set the ranks
+ * of the subnodes.
  *
  * @param graph A graph object.
  * @param conjunctNodes The merged conjunct nodes.
  * @param ranks An optional rank table.
  */
 export function splitConjunctNodes(
-  graph: Graph,
+  graph: LayoutGraph,
   conjunctNodes: NodeId[],
   ranks?: RankTable
 ) {
   conjunctNodes.forEach((node) => {
-    const { subnodeData, originalEdges } = graph.node(node);
+    const { subnodeData, originalEdges, mergedEdges } = graph.node(node);
+
+    mergedEdges.forEach((edge: Edge) => {
+      graph.removeEdge(edge);
+    });
 
     Object.keys(subnodeData).forEach((subnode) => {
       graph.setNode(subnode, subnodeData[subnode]);
@@ -200,14 +405,300 @@ export function splitConjunctNodes(
       const { v, w, label, name } = edge;
       graph.setEdge(v, w, label, name);
     });
+  });
+}
 
-    const conjunctTarget = node.substring(3);
+/**
+ * Gets the nesting depth of a warrant (or rebuttal) sink, i.e., the number of
+ * warrant edges that have to be followed from its target edge to reach an edge
+ * that is not a warrant edge. Sinks of warrants of ordinary edges have depth 0.
+ *
+ * @param graph A graph object.
+ * @param sink A warrant sink node.
+ * @returns The nesting depth of the sink.
+ */
+export function getWarrantDepth(graph: LayoutGraph, sink: NodeId) {
+  let depth = 0;
+  let { w: targetSink } = graph.node(sink).targetEdge;
 
-    for (const edge of graph.nodeEdges(node)!) {
-      if (edge.w === conjunctTarget) continue;
-      graph.removeEdge(edge);
+  while (graph.node(targetSink)?.isWarrantSink) {
+    depth++;
+    targetSink = graph.node(targetSink).targetEdge.w;
+  }
+
+  return depth;
+}
+
+/**
+ * Merges role nodes into the node they are laid out with, their host, and
+ * returns them in the order they were merged. Backings of warrants and
+ * rebuttals are placed below them, on the next rank, so their total size is
+ * recorded in the `backingSize` property of the host, for which space is kept
+ * on that rank. Other role nodes, i.e., qualifiers and backings of other
+ * nodes, are placed beside their host, which is widened to make room for them.
+ * The edges of role nodes are redirected to the host where possible.
+ *
+ * @param graph A layout graph object.
+ * @returns The merged role nodes.
+ */
+export function mergeRoleNodes(graph: LayoutGraph) {
+  const roleNodes: RoleNode[] = [];
+  const getHost = (node: NodeId): NodeId | undefined => {
+    const { backedNode, qualifiedNode } = graph.node(node) || {};
+    const host = backedNode ?? qualifiedNode;
+    const isMergeable = graph.hasNode(host) && !graph.parent(node);
+
+    return isMergeable && host !== node ? host : undefined;
+  };
+  let unmergedNodes = graph.nodes().filter((node) => getHost(node));
+
+  while (unmergedNodes.length) {
+    const node =
+      unmergedNodes.find((node) =>
+        unmergedNodes.every((other) => getHost(other) !== node)
+      ) ?? unmergedNodes[0];
+    const host = getHost(node)!;
+    const label = graph.node(node);
+    const hostLabel = graph.node(host);
+    const originalEdges: EdgeAndLabel[] = [];
+    const redirectedEdges: EdgeAndLabel[] = [];
+    const { nodesep } = graph.graph();
+    const isBelowHost =
+      label.isBacking &&
+      graph
+        .successors(host)!
+        .some((successor) => graph.node(successor).isWarrantSink);
+    let offset: number | undefined;
+
+    graph.nodeEdges(node)!.forEach((edge) => {
+      const edgeLabel = graph.edge(edge);
+      const v = edge.v === node ? host : edge.v;
+      const w = edge.w === node ? host : edge.w;
+
+      if (v !== w && !graph.hasEdge(v, w)) {
+        graph.setEdge(v, w, edgeLabel);
+        redirectedEdges.push({ ...edge, label: edgeLabel });
+      } else {
+        originalEdges.push({ ...edge, label: edgeLabel });
+      }
+    });
+
+    const hostSize = { width: hostLabel.width, height: hostLabel.height };
+
+    if (isBelowHost) {
+      const { width, height } = hostLabel.backingSize || {
+        width: -nodesep,
+        height: 0,
+      };
+
+      offset = width + nodesep + label.width / 2;
+      hostLabel.backingSize = {
+        width: width + nodesep + label.width,
+        height: Math.max(height, label.height),
+      };
+    } else {
+      hostLabel.width += nodesep + label.width;
+      hostLabel.height = Math.max(hostLabel.height, label.height);
     }
+
+    roleNodes.push({
+      id: node,
+      host,
+      label,
+      hostSize,
+      offset,
+      originalEdges,
+      redirectedEdges,
+    });
+
+    graph.removeNode(node);
+    unmergedNodes = unmergedNodes.filter((other) => other !== node);
+  }
+
+  return roleNodes;
+}
+
+/**
+ * Splits merged role nodes from their host nodes. Backings of warrants and
+ * rebuttals are placed side by side in the space kept for them on the next
+ * rank, whose position is stored in the `backingPosition` property of the
+ * host. Other role nodes are placed beside their host, on the same level: to
+ * the right of it, unless the host is a rebuttal, whose role nodes are placed
+ * to its left, away from the edge it targets. Restores their edges, including
+ * the parts of any long edges that were redirected to the host.
+ *
+ * @param graph A layout graph object.
+ * @param roleNodes The merged role nodes.
+ */
+export function splitRoleNodes(graph: LayoutGraph, roleNodes: RoleNode[]) {
+  [...roleNodes].reverse().forEach((roleNode) => {
+    const {
+      id,
+      host,
+      label,
+      hostSize,
+      offset,
+      originalEdges,
+      redirectedEdges,
+    } = roleNode;
+    const hostLabel = graph.node(host);
+    const hostIsRebuttal = (graph.successors(host) || []).some(
+      (successor) => graph.node(successor).isRebuttalSink
+    );
+    const direction = hostIsRebuttal ? -1 : 1;
+    const seperation = graph.graph().nodesep;
+
+    graph.setNode(id, label);
+
+    if (offset !== undefined) {
+      const { backingPosition, backingSize } = hostLabel;
+
+      label.x = backingPosition.x - backingSize.width / 2 + offset;
+      label.y = backingPosition.y;
+    } else {
+      label.x = hostLabel.x + (direction * (hostSize.width + seperation)) / 2;
+      label.y = hostLabel.y;
+      hostLabel.x -= (direction * (seperation + label.width)) / 2;
+      Object.assign(hostLabel, hostSize);
+    }
+
+    redirectedEdges.forEach((edge) => {
+      const edgeIsIncoming = edge.w === id;
+      const hostEdges =
+        (edgeIsIncoming ? graph.inEdges(host) : graph.outEdges(host)) || [];
+      const hostEdge = hostEdges.find((hostEdge) => {
+        const neighbor = edgeIsIncoming ? hostEdge.v : hostEdge.w;
+        return (
+          graph.edge(hostEdge) === edge.label ||
+          (graph.node(neighbor).isDummyNode &&
+            graph.node(neighbor).edgeData === edge.label)
+        );
+      })!;
+      const { v, w } = hostEdge;
+
+      graph.setEdge(
+        edgeIsIncoming ? v : id,
+        edgeIsIncoming ? id : w,
+        graph.edge(hostEdge)
+      );
+      graph.removeEdge(hostEdge);
+    });
+
+    originalEdges.forEach((edge) => {
+      const { v, w, label, name } = edge;
+      graph.setEdge(v, w, label, name);
+    });
+  });
+}
+
+/**
+ * Checks that all layout options have valid values and throws an
+ * {@link InvalidOptionError} for the first one that does not.
+ *
+ * @param options Layout options.
+ */
+export function validateLayoutOptions(options: LayoutOptions) {
+  const {
+    rankdir,
+    orientation,
+    attackSide,
+    crossingMinimisation,
+    cycleRemoval,
+    ranker,
+    maxLayerWidth,
+    layerBalancing,
+  } = options;
+
+  (["ranksep", "nodesep", "edgesep"] as const).forEach((option) => {
+    const value = options[option];
+
+    if (value === undefined) return;
+    if (typeof value !== "number" || !(value >= 0) || value === Infinity)
+      throw new InvalidOptionError(
+        option,
+        `Layout option "${option}" must be a non-negative number, got ${value}`
+      );
   });
+
+  (["maxrankingloops", "maxcrossingloops"] as const).forEach((option) => {
+    const value = options[option];
+
+    if (value === undefined) return;
+    if (!Number.isInteger(value) || value < 0)
+      throw new InvalidOptionError(
+        option,
+        `Layout option "${option}" must be a non-negative integer, got ${value}`
+      );
+  });
+
+  if (attackSide !== undefined && !["left", "right"].includes(attackSide))
+    throw new InvalidOptionError(
+      "attackSide",
+      `Layout option "attackSide" must be either "left" or "right", got ${attackSide}`
+    );
+
+  if (
+    crossingMinimisation !== undefined &&
+    !["barycenter", "median", "weighted-median"].includes(crossingMinimisation)
+  )
+    throw new InvalidOptionError(
+      "crossingMinimisation",
+      `Layout option "crossingMinimisation" must be one of "barycenter", "median" and "weighted-median", got ${crossingMinimisation}`
+    );
+
+  if (
+    cycleRemoval !== undefined &&
+    !["greedy", "dfs", "exact"].includes(cycleRemoval)
+  )
+    throw new InvalidOptionError(
+      "cycleRemoval",
+      `Layout option "cycleRemoval" must be one of "greedy", "dfs" and "exact", got ${cycleRemoval}`
+    );
+
+  if (
+    ranker !== undefined &&
+    !["network-simplex", "longest-path", "coffman-graham"].includes(ranker)
+  )
+    throw new InvalidOptionError(
+      "ranker",
+      `Layout option "ranker" must be one of "network-simplex", "longest-path" and "coffman-graham", got ${ranker}`
+    );
+
+  if (
+    maxLayerWidth !== undefined &&
+    !(Number.isInteger(maxLayerWidth) && maxLayerWidth > 0)
+  )
+    throw new InvalidOptionError(
+      "maxLayerWidth",
+      `Layout option "maxLayerWidth" must be a positive integer, got ${maxLayerWidth}`
+    );
+
+  if (
+    layerBalancing !== undefined &&
+    !["width", "count", "none"].includes(layerBalancing)
+  )
+    throw new InvalidOptionError(
+      "layerBalancing",
+      `Layout option "layerBalancing" must be one of "width", "count" and "none", got ${layerBalancing}`
+    );
+
+  if (
+    rankdir !== undefined &&
+    !["tb", "bt", "lr", "rl"].includes(String(rankdir).toLowerCase())
+  )
+    throw new InvalidOptionError(
+      "rankdir",
+      `Layout option "rankdir" must be one of "tb", "bt", "lr" and "rl", got ${rankdir}`
+    );
+
+  if (
+    orientation !== undefined &&
+    !["premises-above", "conclusion-above"].includes(orientation)
+  )
+    throw new InvalidOptionError(
+      "orientation",
+      `Layout option "orientation" must be either "premises-above" or "conclusion-above", got ${orientation}`
+    );
 }
 
 /**
@@ -239,78 +730,331 @@ export function splitConjunctNodes(
 
 const GRAPH_DEFAULTS = {
   ranksep: 225,
-  edgesep: 20, // Currently unused
+  edgesep: 20,
   nodesep: 100,
-  rankdir: "tb", // Currently unused
+  rankdir: "tb",
   maxrankingloops: 100,
   maxcrossingloops: 100,
 };
 const NODE_DEFAULTS = {
   width: 300,
-  height: 100, // Currently unused
+  height: 100,
 };
 const EDGE_DEFAULTS = {
   minlen: 1,
-  weight: 1, // Currently unused
-  width: 0, // Currently unused
-  height: 0, // Currently unused
-  labeloffset: 10, // Currently unused
-  labelpos: "r", // Currently unused
+  weight: 1,
+  width: 0,
+  height: 0,
+  labeloffset: 10,
+  labelpos: "r",
 };
 
 /**
- * Updates the input graph with the attributes of the layout graph.
+ * Collects the attributes of the layout graph that belong to the nodes and
+ * edges of the input graph, without modifying either graph.
  *
  * @param inputGraph A graph object.
  * @param layoutGraph A copied and laid out graph object.
+ * @returns The layout of the input graph.
  */
-export function updateInputGraph(inputGraph: Graph, layoutGraph: Graph) {
+export function buildLayoutResult(
+  inputGraph: Graph,
+  layoutGraph: LayoutGraph
+): LayoutResult {
+  const { width, height } = layoutGraph.graph();
+  const layout: LayoutResult = {
+    nodes: new Map(),
+    edges: [],
+    width,
+    height,
+    warrants: [],
+    rebuttals: [],
+    conjuncts: [],
+  };
+  const getNodeLayout = (node: NodeId): NodeLayout => {
+    const { x, y, width, height } = layoutGraph.node(node);
+    return { x, y, width, height };
+  };
+
   inputGraph.nodes().forEach((node) => {
-    const inputLabel = inputGraph.node(node);
-    const layoutLabel = layoutGraph.node(node);
+    const { isConjunctNode, isWarrantSink } = inputGraph.node(node) || {};
 
-    if (inputLabel) {
-      inputLabel.x = layoutLabel.x;
-      inputLabel.y = layoutLabel.y;
+    if (isWarrantSink) return;
 
-      inputLabel.width = layoutLabel.width;
-      inputLabel.height = layoutLabel.height;
+    if (isConjunctNode) {
+      layout.conjuncts.push({
+        id: node,
+        nodes: inputGraph.children(node),
+        target: inputGraph.successors(node)![0],
+        ...getNodeLayout(node),
+      });
+    } else {
+      layout.nodes.set(node, getNodeLayout(node));
     }
   });
 
   inputGraph.edges().forEach((edge) => {
-    const inputLabel = inputGraph.edge(edge);
-    const layoutLabel = layoutGraph.edge(edge);
+    const { points, x, y, reversed, isLoop } = layoutGraph.edge(edge);
+    const edgeLayout = {
+      points: points.map(({ x, y }: Point) => ({ x, y })),
+      ...(x !== undefined && { x, y }),
+      ...(reversed && { reversed }),
+      ...(isLoop && { isLoop }),
+    };
+
+    const { isWarrantSink, isRebuttalSink, targetEdge } =
+      inputGraph.node(edge.w) || {};
+
+    if (isWarrantSink) {
+      const { v, w } = targetEdge;
+      const warrantLayout = { source: edge.v, target: { v, w }, ...edgeLayout };
+
+      if (isRebuttalSink) layout.rebuttals.push(warrantLayout);
+      else layout.warrants.push(warrantLayout);
+    } else {
+      layout.edges.push({ ...edge, ...edgeLayout });
+    }
+  });
 
-    inputLabel.points = layoutLabel.points;
+  return layout;
+}
 
-    if (layoutLabel.x) {
-      inputLabel.x = layoutLabel.x;
-      inputLabel.y = layoutLabel.y;
-    }
+/**
+ * Updates the input graph with the attributes of a layout of it. Warrant and
+ * rebuttal sinks are placed at the end of their edges.
+ *
+ * @param inputGraph A graph object.
+ * @param layout A layout of the input graph.
+ */
+export function updateInputGraph(inputGraph: Graph, layout: LayoutResult) {
+  layout.nodes.forEach((nodeLayout, node) => {
+    const inputLabel = inputGraph.node(node);
+    if (inputLabel) Object.assign(inputLabel, nodeLayout);
+  });
+
+  layout.conjuncts.forEach(({ id, x, y, width, height }) => {
+    Object.assign(inputGraph.node(id), { x, y, width, height });
+  });
+
+  layout.edges.forEach(({ v, w, name, points, x, y, reversed, isLoop }) => {
+    const inputLabel = inputGraph.edge(v, w, name);
+
+    inputLabel.points = points;
+    if (x !== undefined) Object.assign(inputLabel, { x, y });
+    if (reversed) inputLabel.reversed = reversed;
+    if (isLoop) inputLabel.isLoop = isLoop;
+  });
+
+  [...layout.warrants, ...layout.rebuttals].forEach((warrantLayout) => {
+    const { source, target, points, x, y } = warrantLayout;
+    const isRebuttal = layout.rebuttals.includes(warrantLayout);
+    const sink = inputGraph.successors(source)!.find((node) => {
+      const { isWarrantSink, isRebuttalSink, targetEdge } =
+        inputGraph.node(node) || {};
+
+      return (
+        isWarrantSink &&
+        !!isRebuttalSink === isRebuttal &&
+        targetEdge.v === target.v &&
+        targetEdge.w === target.w
+      );
+    })!;
+    const inputLabel = inputGraph.edge(source, sink);
+    const { x: sinkX, y: sinkY } = points[points.length - 1];
+
+    inputLabel.points = points;
+    if (x !== undefined) Object.assign(inputLabel, { x, y });
+    Object.assign(inputGraph.node(sink), { x: sinkX, y: sinkY });
   });
 
   const inputGraphLabel = inputGraph.graph();
-  const layoutGraphLabel = layoutGraph.graph();
 
   if (inputGraphLabel) {
-    inputGraphLabel.width = layoutGraphLabel.width;
-    inputGraphLabel.height = layoutGraphLabel.height;
+    inputGraphLabel.width = layout.width;
+    inputGraphLabel.height = layout.height;
   }
 }
 
+/**
+ * Makes room for edge labels by ensuring that every labelled edge spans at
+ * least two ranks, so that its label can be placed on a rank of its own.
+ * Warrant edges are left as they are, since labels on them are rejected by
+ * graph validation.
+ *
+ * @param graph A layout graph object.
+ */
+export function makeSpaceForEdgeLabels(graph: LayoutGraph) {
+  graph.edges().forEach((edge) => {
+    const edgeLabel = graph.edge(edge);
+    const edgeHasLabel = edgeLabel.width > 0 || edgeLabel.height > 0;
+
+    if (!edgeHasLabel || graph.node(edge.w).isWarrantSink) return;
+
+    edgeLabel.minlen = Math.max(edgeLabel.minlen, 2);
+  });
+}
+
+/**
+ * Keeps space free for loops and their labels, which are drawn to the right of
+ * their nodes, by setting the `loopWidth` property of the nodes. Coordinate
+ * assignment adds it to the separation from the next node of the same rank and
+ * to the width of the graph. Must be called after the coordinate system has
+ * been adjusted, so that the width of loop labels is known.
+ *
+ * @param graph A layout graph object.
+ */
+export function makeSpaceForLoops(graph: LayoutGraph) {
+  graph.edges().forEach((edge) => {
+    if (edge.v === edge.w)
+      graph.node(edge.v).loopWidth = getLoopWidth(graph, edge);
+  });
+}
+
+/**
+ * Gets the direction in which the layout graph is laid out from the sources to
+ * the sinks of its edges. This is the rank direction, unless conclusions are
+ * placed above premises, which reverses it.
+ *
+ * @param graph A layout graph object.
+ * @returns The lower case rank direction of the edges.
+ */
+function getEdgeDirection(graph: LayoutGraph) {
+  const { rankdir, orientation } = graph.graph();
+  const direction = rankdir.toLowerCase();
+  const reversedDirections: { [direction: string]: string } = {
+    tb: "bt",
+    bt: "tb",
+    lr: "rl",
+    rl: "lr",
+  };
+
+  return orientation === "conclusion-above"
+    ? reversedDirections[direction]
+    : direction;
+}
+
+/**
+ * Prepares the layout graph for its rank direction. If the graph is to be laid
+ * out horizontally, the widths and heights of all nodes and edges are swapped
+ * so that the layout can be produced as if it were top-to-bottom.
+ *
+ * @param graph A layout graph object.
+ */
+export function adjustCoordinateSystem(graph: LayoutGraph) {
+  const rankdir = getEdgeDirection(graph);
+
+  if (rankdir === "lr" || rankdir === "rl") swapWidthHeight(graph);
+}
+
+/**
+ * Transforms a top-to-bottom layout into the rank direction and orientation of
+ * the graph by mirroring and/or transposing all coordinates. Only positions are
+ * transformed, so nodes and labels keep their size and stay upright. Reverts
+ * the swap made by {@link adjustCoordinateSystem}.
+ *
+ * @param graph A laid out layout graph object.
+ */
+export function undoCoordinateSystem(graph: LayoutGraph) {
+  const rankdir = getEdgeDirection(graph);
+
+  if (rankdir === "bt" || rankdir === "rl") reverseY(graph);
+
+  if (rankdir === "lr" || rankdir === "rl") {
+    swapXY(graph);
+    swapWidthHeight(graph);
+  }
+}
+
+/**
+ * Swaps the width and height of all nodes, edge labels and the graph, so that
+ * left-to-right layouts can be computed as top-to-bottom ones.
+ *
+ * @param graph A layout graph object.
+ */
+function swapWidthHeight(graph: LayoutGraph) {
+  const swap = (label: { width?: number; height?: number }) => {
+    const { width, height } = label;
+    label.width = height;
+    label.height = width;
+  };
+
+  graph.nodes().forEach((node) => swap(graph.node(node)));
+  graph.edges().forEach((edge) => swap(graph.edge(edge)));
+  swap(graph.graph());
+}
+
+/**
+ * Mirrors the *y*-coordinates of all nodes, edge points and edge labels along
+ * the middle of the graph.
+ *
+ * @param graph A laid out layout graph object.
+ */
+function reverseY(graph: LayoutGraph) {
+  const graphHeight: number = graph.graph().height;
+  const reverse = (point: { y: number }) => {
+    point.y = graphHeight - point.y;
+  };
+
+  graph.nodes().forEach((node) => reverse(graph.node(node)));
+
+  graph.edges().forEach((edge) => {
+    const edgeLabel = graph.edge(edge);
+
+    edgeLabel.points?.forEach(reverse);
+    if (edgeLabel.y !== undefined) reverse(edgeLabel);
+  });
+}
+
+/**
+ * Swaps the *x*- and *y*-coordinates of all nodes, edge points and edge
+ * labels, which transposes the layout.
+ *
+ * @param graph A laid out layout graph object.
+ */
+function swapXY(graph: LayoutGraph) {
+  const swap = (point: { x: number; y: number }) => {
+    const { x, y } = point;
+    point.x = y;
+    point.y = x;
+  };
+
+  graph.nodes().forEach((node) => swap(graph.node(node)));
+
+  graph.edges().forEach((edge) => {
+    const edgeLabel = graph.edge(edge);
+
+    edgeLabel.points?.forEach(swap);
+    if (edgeLabel.x !== undefined) swap(edgeLabel);
+  });
+}
+
 /**
  * Creates a new graph object, copies the input graph, adds default values for
- * missing attributes and returns the new graph.
+ * missing attributes and returns the new graph. Layout options override the
+ * graph label, which overrides the defaults. The resulting options are
+ * validated.
  *
  * @param inputGraph A graph object.
+ * @param options Layout options.
  * @returns A new graph object for layouting.
  */
-export function buildLayoutGraph(inputGraph: Graph) {
-  const layoutGraph = new Graph({ directed: true, compound: true });
+export function buildLayoutGraph(
+  inputGraph: Graph,
+  options: LayoutOptions = {}
+) {
+  const layoutGraph = createLayoutGraph({ directed: true, compound: true });
   const inputGraphLabel = inputGraph.graph() as any;
-
-  layoutGraph.setGraph({ ...GRAPH_DEFAULTS, ...inputGraphLabel });
+  const definedOptions = Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  );
+  const graphLabel = {
+    ...GRAPH_DEFAULTS,
+    ...inputGraphLabel,
+    ...definedOptions,
+  };
+
+  validateLayoutOptions(graphLabel);
+  layoutGraph.setGraph(graphLabel);
 
   inputGraph.nodes().forEach((node) => {
     const nodeLabel = inputGraph.node(node);
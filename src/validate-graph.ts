@@ -0,0 +1,314 @@
+import { Edge } from "graphlib";
+import Graph from "./graph.js";
+import { getStronglyConnectedComponents, isPinned } from "./remove-cycles.js";
+import { createLayoutGraph, NodeId } from "./utils.js";
+
+/**
+ * Identifies the kind of problem described by a {@link GraphDiagnostic}.
+ */
+export type GraphDiagnosticCode =
+  | "undirected-graph"
+  | "multigraph"
+  | "invalid-node-size"
+  | "invalid-edge-label"
+  | "invalid-parent"
+  | "empty-conjunct-node"
+  | "missing-conjunct-edge"
+  | "multiple-conjunct-edges"
+  | "missing-warrant-source"
+  | "multiple-warrant-sources"
+  | "missing-target-edge"
+  | "missing-role-target"
+  | "cyclic-pinned-edges"
+  | "labelled-warrant-edge"
+  | "invalid-rank-constraint";
+
+/**
+ * A structural problem that prevents a graph from being laid out.
+ */
+export interface GraphDiagnostic {
+  /** The kind of problem. */
+  code: GraphDiagnosticCode;
+  /** A description of the problem. */
+  message: string;
+  /** The node the problem concerns, if any. */
+  node?: NodeId;
+  /** The edge the problem concerns, if any. */
+  edge?: Edge;
+}
+
+/**
+ * Checks that a graph has the structure the layout algorithm expects and
+ * returns a diagnostic for each problem found. An empty array means that the
+ * graph can be laid out.
+ *
+ * @remarks
+ * Conjunct nodes must have subnodes and exactly one out-edge, and only
+ * conjunct nodes may be parents. Warrant (and rebuttal) sinks must have exactly
+ * one source, and the edge they target must exist. Backings and qualifiers must
+ * refer to existing nodes. Sizes of nodes and edge labels, edge weights and
+ * minimum lengths must be non-negative numbers. Edges whose direction is
+ * preserved must not form a cycle. Rank constraints must refer to existing
+ * nodes, and pinned ranks and rank gaps must be non-negative integers, unless
+ * pinned to `"min"` or `"max"`. Whether rank constraints can be satisfied is
+ * only checked during layout. Multigraphs and labels on warrant (and rebuttal)
+ * edges are not supported. Undirected graphs are not checked any further.
+ *
+ * @param graph A graph object.
+ * @returns The problems found in the graph.
+ */
+export default function validateGraph(graph: Graph): GraphDiagnostic[] {
+  if (!graph.isDirected())
+    return [
+      {
+        code: "undirected-graph",
+        message: "Graph must be directed for layered drawing",
+      },
+    ];
+
+  const diagnostics: GraphDiagnostic[] = [];
+
+  if (graph.isMultigraph())
+    diagnostics.push({
+      code: "multigraph",
+      message: "Graph must not be a multigraph for layered drawing",
+    });
+
+  graph.nodes().forEach((node) => {
+    diagnostics.push(...validateNode(graph, node));
+    diagnostics.push(...validateRankConstraints(graph, node));
+  });
+  graph.edges().forEach((edge) => {
+    diagnostics.push(...validateEdge(graph, edge));
+  });
+  diagnostics.push(...validatePinnedEdges(graph));
+
+  return diagnostics;
+}
+
+/**
+ * Checks the label and structural role of a single node.
+ *
+ * @param graph A graph object.
+ * @param node The node to check.
+ * @returns The problems found.
+ */
+function validateNode(graph: Graph, node: NodeId) {
+  const diagnostics: GraphDiagnostic[] = [];
+  const nodeLabel = graph.node(node) || {};
+  const parent = graph.parent(node) as NodeId | undefined;
+
+  (["width", "height"] as const).forEach((property) => {
+    if (isValidNumber(nodeLabel[property])) return;
+
+    diagnostics.push({
+      code: "invalid-node-size",
+      message: `Node "${node}" has an invalid ${property}: ${nodeLabel[property]}`,
+      node,
+    });
+  });
+
+  if (parent !== undefined && !graph.node(parent)?.isConjunctNode)
+    diagnostics.push({
+      code: "invalid-parent",
+      message: `Node "${node}" has a parent that is not a conjunct node: "${parent}"`,
+      node,
+    });
+
+  if (nodeLabel.isConjunctNode) {
+    const outEdges = graph.outEdges(node) || [];
+
+    if (!graph.children(node).length)
+      diagnostics.push({
+        code: "empty-conjunct-node",
+        message: `Conjunct node "${node}" has no subnodes`,
+        node,
+      });
+    if (outEdges.length !== 1)
+      diagnostics.push({
+        code: outEdges.length
+          ? "multiple-conjunct-edges"
+          : "missing-conjunct-edge",
+        message: `Conjunct node "${node}" must have exactly one out-edge, has ${outEdges.length}`,
+        node,
+      });
+  }
+
+  if (nodeLabel.isWarrantSink) {
+    const sources = graph.predecessors(node) || [];
+    const { v, w } = nodeLabel.targetEdge || {};
+
+    if (sources.length !== 1)
+      diagnostics.push({
+        code: sources.length
+          ? "multiple-warrant-sources"
+          : "missing-warrant-source",
+        message: `Warrant sink "${node}" must have exactly one source, has ${sources.length}`,
+        node,
+      });
+    if (!graph.outEdges(v, w)?.length)
+      diagnostics.push({
+        code: "missing-target-edge",
+        message: `The edge targeted by warrant sink "${node}" does not exist: "${v}" -> "${w}"`,
+        node,
+      });
+  }
+
+  [nodeLabel.backedNode, nodeLabel.qualifiedNode].forEach((roleTarget) => {
+    if (roleTarget === undefined || graph.hasNode(roleTarget)) return;
+
+    diagnostics.push({
+      code: "missing-role-target",
+      message: `The node backed or qualified by "${node}" does not exist: "${roleTarget}"`,
+      node,
+    });
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Checks the rank constraints stored in the label of a single node.
+ *
+ * @param graph A graph object.
+ * @param node The node to check.
+ * @returns The problems found.
+ */
+function validateRankConstraints(graph: Graph, node: NodeId) {
+  const diagnostics: GraphDiagnostic[] = [];
+  const {
+    pinnedRank,
+    sameRankAs = [],
+    minRankGaps = [],
+  } = graph.node(node) || {};
+  const isRankGap = (value: unknown) =>
+    Number.isInteger(value) && (value as number) >= 0;
+
+  if (
+    pinnedRank !== undefined &&
+    pinnedRank !== "min" &&
+    pinnedRank !== "max" &&
+    !isRankGap(pinnedRank)
+  )
+    diagnostics.push({
+      code: "invalid-rank-constraint",
+      message: `Node "${node}" is pinned to an invalid rank: ${pinnedRank}`,
+      node,
+    });
+
+  sameRankAs.forEach((other: NodeId) => {
+    if (graph.hasNode(other)) return;
+
+    diagnostics.push({
+      code: "invalid-rank-constraint",
+      message: `Node "${node}" must be on the same rank as a node that does not exist: "${other}"`,
+      node,
+    });
+  });
+
+  minRankGaps.forEach(({ node: other, gap }: { node: NodeId; gap: number }) => {
+    if (!graph.hasNode(other))
+      diagnostics.push({
+        code: "invalid-rank-constraint",
+        message: `Node "${node}" must be above a node that does not exist: "${other}"`,
+        node,
+      });
+    if (!isRankGap(gap))
+      diagnostics.push({
+        code: "invalid-rank-constraint",
+        message: `Node "${node}" has an invalid rank gap to "${other}": ${gap}`,
+        node,
+      });
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Checks the label of a single edge.
+ *
+ * @param graph A graph object.
+ * @param edge The edge to check.
+ * @returns The problems found.
+ */
+function validateEdge(graph: Graph, edge: Edge) {
+  const edgeLabel = graph.edge(edge) || {};
+  const diagnostics = (["minlen", "weight", "width", "height"] as const)
+    .filter((property) => {
+      const value = edgeLabel[property];
+
+      if (property === "minlen")
+        return value !== undefined && !(Number.isInteger(value) && value >= 0);
+      return !isValidNumber(value);
+    })
+    .map<GraphDiagnostic>((property) => ({
+      code: "invalid-edge-label",
+      message: `Edge "${edge.v}" -> "${edge.w}" has an invalid ${property}: ${edgeLabel[property]}`,
+      edge,
+    }));
+
+  if (
+    graph.node(edge.w)?.isWarrantSink &&
+    (edgeLabel.width > 0 || edgeLabel.height > 0)
+  )
+    diagnostics.push({
+      code: "labelled-warrant-edge",
+      message: `Warrant edge "${edge.v}" -> "${edge.w}" has a label, which is not supported`,
+      edge,
+    });
+
+  return diagnostics;
+}
+
+/**
+ * Checks that the edges whose direction is preserved during cycle removal do
+ * not form a cycle, as one of them would have to be reversed.
+ *
+ * @param graph A graph object.
+ * @returns A problem for each pinned edge on a cycle of pinned edges.
+ */
+function validatePinnedEdges(graph: Graph) {
+  const pinnedGraph = createLayoutGraph();
+  const pinnedEdges = graph
+    .edges()
+    .filter((edge) => edge.v !== edge.w && isPinned(graph, edge));
+
+  graph.nodes().forEach((node) => {
+    pinnedGraph.setNode(node);
+  });
+  pinnedEdges.forEach(({ v, w }) => {
+    pinnedGraph.setEdge(v, w);
+  });
+
+  const cycleComponents = new Map<NodeId, NodeId[]>();
+
+  getStronglyConnectedComponents(pinnedGraph).forEach((component) => {
+    if (component.length < 2) return;
+    component.forEach((node) => cycleComponents.set(node, component));
+  });
+
+  return pinnedEdges
+    .filter(
+      ({ v, w }) =>
+        cycleComponents.has(v) &&
+        cycleComponents.get(v) === cycleComponents.get(w)
+    )
+    .map<GraphDiagnostic>((edge) => ({
+      code: "cyclic-pinned-edges",
+      message: `Edge "${edge.v}" -> "${edge.w}" preserves its direction, but lies on a cycle of such edges`,
+      edge,
+    }));
+}
+
+/**
+ * Checks that an optional value is a finite, non-negative number.
+ *
+ * @param value The value.
+ * @returns `true` if the value is undefined or valid.
+ */
+function isValidNumber(value: unknown) {
+  return (
+    value === undefined ||
+    (typeof value === "number" && Number.isFinite(value) && value >= 0)
+  );
+}
@@ -1,11 +1,49 @@
 import "mocha";
 import { assert } from "chai";
 
-import { Graph, layOutGraph } from "../src/index.js";
+import {
+  Graph,
+  InvalidGraphError,
+  InvalidOptionError,
+  LayoutConvergenceError,
+  LayoutError,
+  LayoutPipeline,
+  RankConstraintError,
+  RankTable,
+  UnsupportedStructureError,
+  computeLayout,
+  defaultLayoutStages,
+  layOutGraph,
+  layerNodes,
+  minimiseCrossings,
+  removeCycles,
+  straightenEdges,
+  validateGraph,
+} from "../src/index.js";
 
 describe("NPM Package", () => {
-  it("should export a class and a function", () => {
+  it("should export a class and functions", () => {
     assert.isFunction(Graph);
+    assert.isFunction(computeLayout);
     assert.isFunction(layOutGraph);
+    assert.isFunction(validateGraph);
+    assert.isFunction(LayoutPipeline);
+    assert.isFunction(RankTable);
+    assert.deepEqual(defaultLayoutStages, {
+      removeCycles,
+      layerNodes,
+      minimiseCrossings,
+      straightenEdges,
+    });
+    assert.isFunction(LayoutError);
+    [
+      InvalidGraphError,
+      InvalidOptionError,
+      LayoutConvergenceError,
+      RankConstraintError,
+      UnsupportedStructureError,
+    ].forEach((errorClass) => {
+      assert.instanceOf(errorClass.prototype, LayoutError);
+    });
   });
 });
@@ -1,8 +1,15 @@
 import "mocha";
 import { assert } from "chai";
 
-import layOutGraph from "../src/lay-out-graph.js";
-import Graph from "../src/graph.js";
+import graphlib from "graphlib";
+
+import layOutGraph, {
+  LayoutPipeline,
+  computeLayout,
+  defaultLayoutStages,
+} from "../src/lay-out-graph.js";
+import Graph, { NodeLayout, Point } from "../src/graph.js";
+import { InvalidOptionError, LayoutError } from "../src/errors.js";
 
 describe("Layered Graph Drawing", () => {
   it("should be a function", () => {
@@ -45,10 +52,983 @@ describe("Layered Graph Drawing", () => {
     g.setNode("e");
 
     g.setEdge("a", "b");
-    g.setEdge("b", "c");
     g.setEdge("b", "d");
     g.setEdge("e", "d");
 
     layOutGraph(g);
   });
+
+  it("should set the width and height of the graph", () => {
+    const g = new Graph();
+
+    g.setGraph({ ranksep: 50, nodesep: 10 });
+    g.setDefaultEdgeLabel(() => ({}));
+
+    g.setNode("a", { width: 100, height: 40 });
+    g.setNode("b", { width: 100, height: 60 });
+    g.setEdge("a", "b");
+
+    layOutGraph(g);
+
+    assert.strictEqual(g.graph().width, 100);
+    assert.strictEqual(g.graph().height, 150);
+    assert.strictEqual(g.node("b").y - g.node("a").y, 20 + 50 + 30);
+  });
+
+  it("should set the height of an empty graph", () => {
+    const layout = computeLayout(new Graph());
+
+    assert.strictEqual(layout.height, 0);
+    assert.isNumber(layout.width);
+  });
+
+  it("should align nodes with the neighbors of their heaviest edges", () => {
+    const graph = new Graph();
+
+    graph.setDefaultNodeLabel(() => ({}));
+    graph.setDefaultEdgeLabel(() => ({}));
+
+    graph.setEdge("a", "c");
+    graph.setEdge("b", "c", { weight: 5 });
+
+    layOutGraph(graph);
+
+    assert.strictEqual(graph.node("c").x, graph.node("b").x);
+  });
+
+  it("should lay out conjunct nodes with labels and other edges", () => {
+    const g = new Graph();
+
+    g.setDefaultNodeLabel(() => ({ width: 100, height: 40 }));
+    g.setDefaultEdgeLabel(() => ({}));
+    g.setEdge("x", "a");
+    g.setEdge("y", "b");
+    g.setEdge("a", "c", { width: 20, height: 10 });
+    g.setConjunctNode("b", { v: "a", w: "c" });
+    g.setEdge("b", "z");
+
+    const layout = computeLayout(g);
+    const conjunctNode = g.parent("a")!;
+
+    assert.sameDeepMembers(
+      layout.edges.map(({ v, w }) => ({ v, w })),
+      [
+        { v: "x", w: "a" },
+        { v: "y", w: "b" },
+        { v: conjunctNode, w: "c" },
+        { v: "b", w: "z" },
+      ]
+    );
+    assert.isBelow(layout.nodes.get("x")!.y, layout.nodes.get("a")!.y);
+    assert.isBelow(layout.nodes.get("y")!.y, layout.nodes.get("b")!.y);
+  });
+
+  it("should accept any string as a node ID", () => {
+    const g = new Graph({ compound: true });
+    const nodes = ["start a", "-> d", "a -> d", "meta root", "_dummy1", "d"];
+
+    g.setDefaultEdgeLabel(() => ({}));
+    nodes.forEach((node) => g.setNode(node, { width: 50, height: 20 }));
+    g.setEdge("start a", "d");
+    g.setConjunctNode("-> d", { v: "start a", w: "d" });
+    g.setWarrantEdge("a -> d", { v: "start a", w: "d" });
+    g.setEdge("meta root", "_dummy1", { minlen: 3 });
+    g.setEdge("_dummy1", "d");
+
+    const layout = computeLayout(g);
+
+    assert.hasAllKeys(layout.nodes, nodes);
+    assert.sameMembers(layout.conjuncts[0].nodes, ["start a", "-> d"]);
+    assert.strictEqual(layout.warrants[0].source, "a -> d");
+    layout.nodes.forEach(({ x, y }) => {
+      assert.isTrue(Number.isFinite(x) && Number.isFinite(y));
+    });
+  });
+
+  it("should move internal nodes whose IDs are set later", () => {
+    const g = new Graph();
+
+    g.setDefaultNodeLabel(() => ({ width: 50, height: 20 }));
+    g.setDefaultEdgeLabel(() => ({}));
+    g.setEdge("a", "c");
+    g.setConjunctNode("b", { v: "a", w: "c" });
+    g.setWarrantEdge("d", { v: "a", w: "c" });
+
+    const conjunctNode = g.parent("a")!;
+    const sinkNode = g.successors("d")![0];
+
+    g.setNode(conjunctNode);
+    g.setNode(sinkNode, { width: 50, height: 20 });
+    g.setEdge(sinkNode, "c");
+
+    const layout = computeLayout(g);
+
+    assert.notEqual(g.parent("a"), conjunctNode);
+    assert.isTrue(g.hasEdge(g.parent("a")!, "c"));
+    assert.hasAllKeys(layout.nodes, [
+      "a",
+      "b",
+      "c",
+      "d",
+      conjunctNode,
+      sinkNode,
+    ]);
+    assert.sameMembers(layout.conjuncts[0].nodes, ["a", "b"]);
+    assert.deepEqual(layout.warrants[0].target, { v: g.parent("a")!, w: "c" });
+  });
+
+  it("should generate the same internal node IDs for every graph", () => {
+    const buildGraph = () =>
+      new Graph()
+        .setEdge("a", "c")
+        .setConjunctNode("b", { v: "a", w: "c" })
+        .setWarrantEdge("d", { v: "a", w: "c" });
+    const g = buildGraph();
+
+    computeLayout(g);
+
+    const otherGraph = buildGraph();
+
+    assert.strictEqual(otherGraph.parent("a"), g.parent("a"));
+    assert.deepEqual(otherGraph.successors("d"), g.successors("d"));
+  });
+
+  it("should extend label types with layout information", () => {
+    const g = new Graph<{ text: string }, { weight?: number }, object>();
+
+    g.setGraph({});
+    g.setNode("a", { text: "premise" });
+    g.setNode("b", { text: "conclusion" });
+    g.setEdge("a", "b", { weight: 2 });
+
+    layOutGraph(g);
+
+    const { text, x, y, width, height } = g.node("a");
+    const { weight, points } = g.edge("a", "b");
+    const point: { x: number; y: number } = points[0];
+
+    assert.strictEqual(text, "premise");
+    assert.isTrue([x, y, width, height].every(Number.isFinite));
+    assert.strictEqual(weight, 2);
+    assert.isTrue(Number.isFinite(point.x));
+    assert.isTrue(Number.isFinite(g.graph().width));
+  });
+
+  describe("Layout Result", () => {
+    const buildGraph = () => {
+      const g = new Graph();
+
+      g.setGraph({ ranksep: 50, nodesep: 10 });
+      g.setDefaultEdgeLabel(() => ({}));
+
+      g.setNode("a", { width: 100, height: 40 });
+      g.setNode("b", { width: 100, height: 40 });
+      g.setNode("c", { width: 100, height: 40 });
+      g.setEdge("a", "c", { width: 20, height: 10 });
+      g.setConjunctNode("b", { v: "a", w: "c" });
+
+      return g;
+    };
+
+    it("should leave the input graph untouched", () => {
+      const g = buildGraph();
+      const serialisedGraph = JSON.stringify(graphlib.json.write(g));
+
+      computeLayout(g);
+
+      assert.strictEqual(
+        JSON.stringify(graphlib.json.write(g)),
+        serialisedGraph
+      );
+    });
+
+    it("should match the layout assigned by layOutGraph", () => {
+      const g = buildGraph();
+      const layout = computeLayout(g);
+      const conjunctNode = g.parent("a")!;
+
+      layOutGraph(g);
+
+      assert.hasAllKeys(layout.nodes, ["a", "b", "c"]);
+      layout.nodes.forEach((nodeLayout, node) => {
+        const { x, y, width, height } = g.node(node);
+        assert.deepEqual(nodeLayout, { x, y, width, height });
+      });
+
+      assert.lengthOf(layout.edges, 1);
+      assert.deepInclude(layout.edges[0], { v: conjunctNode, w: "c" });
+      assert.deepEqual(
+        layout.edges[0].points,
+        g.edge(conjunctNode, "c").points
+      );
+      assert.strictEqual(layout.edges[0].x, g.edge(conjunctNode, "c").x);
+
+      assert.lengthOf(layout.conjuncts, 1);
+      assert.deepInclude(layout.conjuncts[0], {
+        id: conjunctNode,
+        target: "c",
+        x: g.node(conjunctNode).x,
+      });
+      assert.sameMembers(layout.conjuncts[0].nodes, ["a", "b"]);
+
+      assert.isEmpty(layout.warrants);
+      assert.strictEqual(layout.width, g.graph().width);
+      assert.strictEqual(layout.height, g.graph().height);
+    });
+  });
+
+  describe("Layout Pipeline", () => {
+    const buildGraph = () => {
+      const g = new Graph();
+
+      g.setDefaultEdgeLabel(() => ({}));
+      ["a", "b", "c", "d"].forEach((node) =>
+        g.setNode(node, { width: 50, height: 20 })
+      );
+      g.setEdge("a", "c");
+      g.setEdge("b", "c");
+      g.setEdge("a", "d", { minlen: 2 });
+
+      return g;
+    };
+
+    it("should run the stages one at a time", () => {
+      const g = buildGraph();
+      const pipeline = new LayoutPipeline(g);
+      const ranks = pipeline.layerNodes();
+
+      assert.isDefined(pipeline.modifiedEdges);
+      assert.strictEqual(ranks.getRank("c"), 1);
+      assert.strictEqual(ranks.getRank("d"), 2);
+
+      const graphMatrix = pipeline.minimiseCrossings();
+
+      assert.lengthOf(graphMatrix, 3);
+      assert.lengthOf(graphMatrix[1], 2);
+      assert.strictEqual(pipeline.graphMatrix, graphMatrix);
+      assert.deepEqual(pipeline.run(), computeLayout(g));
+    });
+
+    it("should not run a stage twice", () => {
+      const pipeline = new LayoutPipeline(buildGraph());
+
+      pipeline.minimiseCrossings();
+
+      assert.throws(() => pipeline.layerNodes(), LayoutError, /layerNodes/);
+      pipeline.run();
+      assert.throws(() => pipeline.run(), LayoutError);
+    });
+
+    it("should use replaced stages", () => {
+      const g = buildGraph();
+      const defaultLayout = computeLayout(g);
+      const layout = computeLayout(g, undefined, {
+        minimiseCrossings: (graph, ranks) =>
+          defaultLayoutStages
+            .minimiseCrossings(graph, ranks)
+            .map((layer) => layer.reverse()),
+      });
+      const x = (node: string) => layout.nodes.get(node)!.x;
+      const defaultX = (node: string) => defaultLayout.nodes.get(node)!.x;
+
+      assert.strictEqual(
+        Math.sign(x("a") - x("b")),
+        -Math.sign(defaultX("a") - defaultX("b"))
+      );
+    });
+  });
+
+  describe("Toulmin Roles", () => {
+    const isInsideNode = (point: Point, node: NodeLayout) =>
+      Math.abs(point.x - node.x) < node.width / 2 &&
+      Math.abs(point.y - node.y) < node.height / 2;
+
+    const buildGraph = (rankdir: string) => {
+      const g = new Graph();
+
+      g.setGraph({ rankdir, nodesep: 10 });
+      g.setDefaultEdgeLabel(() => ({}));
+
+      ["data", "claim", "warrant", "backing", "qualifier", "rebuttal"].forEach(
+        (node) => g.setNode(node, { width: 100, height: 40 })
+      );
+      g.setEdge("data", "claim");
+      g.setWarrantEdge("warrant", { v: "data", w: "claim" });
+      g.setRebuttal("rebuttal", { v: "data", w: "claim" });
+      g.setBacking("backing", "warrant");
+      g.setQualifier("claim", "qualifier");
+
+      layOutGraph(g);
+
+      return g;
+    };
+
+    it("should place warrants and rebuttals on either side of their edge", () => {
+      const g = buildGraph("tb");
+      const { x: dataX, y: dataY } = g.node("data");
+      const { x: claimX, y: claimY } = g.node("claim");
+      const { x: warrantX, y: warrantY } = g.node("warrant");
+      const { x: rebuttalX, y: rebuttalY } = g.node("rebuttal");
+
+      assert.isAbove(warrantY, dataY);
+      assert.isBelow(warrantY, claimY);
+      assert.strictEqual(rebuttalY, warrantY);
+      assert.isAbove(warrantX, Math.max(dataX, claimX));
+      assert.isBelow(rebuttalX, Math.min(dataX, claimX));
+    });
+
+    it("should place backings below their warrants", () => {
+      const g = buildGraph("tb");
+      const nodes = ["data", "claim", "warrant", "backing", "qualifier"];
+      const backing = g.node("backing");
+
+      assert.isAbove(backing.y, g.node("warrant").y);
+      assert.strictEqual(backing.y, g.node("claim").y);
+      assert.lengthOf(g.edge("backing", "warrant").points, 3);
+      nodes.forEach((node0, index) => {
+        nodes.slice(index + 1).forEach((node1) => {
+          const label0 = g.node(node0);
+          const label1 = g.node(node1);
+          const overlapsX =
+            Math.abs(label0.x - label1.x) < (label0.width + label1.width) / 2;
+          const overlapsY =
+            Math.abs(label0.y - label1.y) < (label0.height + label1.height) / 2;
+
+          assert.isFalse(overlapsX && overlapsY, `${node0} ${node1}`);
+        });
+      });
+    });
+
+    it("should place backings beside nodes other than warrants", () => {
+      const g = new Graph();
+
+      g.setGraph({ nodesep: 10 });
+      g.setDefaultEdgeLabel(() => ({}));
+      ["data", "claim", "backing"].forEach((node) =>
+        g.setNode(node, { width: 100, height: 40 })
+      );
+      g.setEdge("data", "claim");
+      g.setBacking("backing", "data");
+      layOutGraph(g);
+
+      assert.strictEqual(g.node("backing").y, g.node("data").y);
+      assert.strictEqual(g.node("backing").x - g.node("data").x, 100 + 10);
+    });
+
+    it("should place qualifiers beside their claims", () => {
+      const g = buildGraph("tb");
+      const claim = g.node("claim");
+      const qualifier = g.node("qualifier");
+
+      assert.strictEqual(qualifier.y, claim.y);
+      assert.strictEqual(qualifier.x - claim.x, 100 + 10);
+    });
+
+    it("should place backings right and qualifiers below for LR", () => {
+      const g = buildGraph("lr");
+
+      assert.isBelow(g.node("data").x, g.node("warrant").x);
+      assert.isBelow(g.node("data").y, g.node("warrant").y);
+      assert.isAbove(g.node("data").y, g.node("rebuttal").y);
+      assert.strictEqual(g.node("backing").x, g.node("claim").x);
+      assert.isAbove(g.node("backing").y, g.node("qualifier").y);
+      assert.strictEqual(g.node("qualifier").x, g.node("claim").x);
+      assert.isAbove(g.node("qualifier").y, g.node("claim").y);
+    });
+
+    it("should lay out warrants of edges going from conjunct nodes", () => {
+      const g = new Graph({ compound: true });
+
+      g.setDefaultEdgeLabel(() => ({}));
+      ["a", "b", "c", "warrant", "rebuttal"].forEach((node) =>
+        g.setNode(node, { width: 100, height: 40 })
+      );
+      g.setEdge("a", "c");
+      g.setWarrantEdge("warrant", { v: "a", w: "c" });
+      g.setConjunctNode("b", { v: "a", w: "c" });
+      g.setRebuttal("rebuttal", { v: "b", w: "c" });
+
+      const conjunctNode = g.parent("a")!;
+      const layout = computeLayout(g);
+      const conjunct = layout.conjuncts[0];
+      const warrant = layout.nodes.get("warrant")!;
+      const rebuttal = layout.nodes.get("rebuttal")!;
+
+      assert.deepEqual(layout.warrants[0].target, { v: conjunctNode, w: "c" });
+      assert.deepEqual(layout.rebuttals[0].target, { v: conjunctNode, w: "c" });
+      assert.isAbove(warrant.y, conjunct.y);
+      assert.isBelow(warrant.y, layout.nodes.get("c")!.y);
+      assert.isAbove(warrant.x, conjunct.x + conjunct.width / 2);
+      assert.isBelow(rebuttal.x, conjunct.x - conjunct.width / 2);
+
+      g.removeEdge(conjunctNode, "c");
+
+      assert.deepEqual(g.nodes().sort(), [
+        "a",
+        "b",
+        "c",
+        "rebuttal",
+        "warrant",
+      ]);
+    });
+
+    it("should place multiple warrants of an edge side by side", () => {
+      const g = new Graph();
+      const edge = { v: "data", w: "claim" };
+
+      g.setDefaultEdgeLabel(() => ({}));
+      ["data", "claim", "w1", "w2", "r1", "r2"].forEach((node) =>
+        g.setNode(node, { width: 100, height: 40 })
+      );
+      g.setEdge("data", "claim");
+      g.setWarrantEdge("w1", edge);
+      g.setWarrantEdge("w2", edge);
+      g.setRebuttal("r1", edge);
+      g.setRebuttal("r2", edge);
+
+      const layout = computeLayout(g);
+      const x = (node: string) => layout.nodes.get(node)!.x;
+      const y = (node: string) => layout.nodes.get(node)!.y;
+
+      assert.isBelow(x("r2"), x("r1"));
+      assert.isBelow(x("r1"), x("data"));
+      assert.isBelow(x("data"), x("w1"));
+      assert.isBelow(x("w1"), x("w2"));
+      assert.notEqual(y("w1"), y("w2"));
+      assert.notEqual(y("r1"), y("r2"));
+      [...layout.warrants, ...layout.rebuttals].forEach(
+        ({ source, points }) => {
+          const [point0, middlePoint, point2] = points;
+          // The control point of the quadratic curve through the three points
+          const point1 = {
+            x: 2 * middlePoint.x - (point0.x + point2.x) / 2,
+            y: 2 * middlePoint.y - (point0.y + point2.y) / 2,
+          };
+
+          for (let t = 0; t <= 1; t += 0.05) {
+            const point = {
+              x:
+                (1 - t) ** 2 * point0.x +
+                2 * t * (1 - t) * point1.x +
+                t ** 2 * point2.x,
+              y:
+                (1 - t) ** 2 * point0.y +
+                2 * t * (1 - t) * point1.y +
+                t ** 2 * point2.y,
+            };
+
+            layout.nodes.forEach((node, id) => {
+              if (id !== source) assert.isFalse(isInsideNode(point, node), id);
+            });
+          }
+        }
+      );
+
+      g.removeEdge(g.warrantEdge("w1", edge)!);
+
+      assert.isUndefined(g.warrantEdge("w1", edge));
+      assert.isDefined(g.warrantEdge("w2", edge));
+      assert.isDefined(g.rebuttalEdge("r1", edge));
+      assert.lengthOf(g.successors("w1")!, 0);
+    });
+
+    it("should lay out nested warrants without overlaps", () => {
+      const g = new Graph();
+
+      g.setDefaultEdgeLabel(() => ({}));
+      ["data", "claim", "warrant", "warrant2", "warrant3", "rebuttal"].forEach(
+        (node) => g.setNode(node, { width: 300, height: 100 })
+      );
+      g.setEdge("data", "claim");
+      g.setWarrantEdge("warrant", { v: "data", w: "claim" });
+
+      const warrantEdge = g.warrantEdge("warrant", { v: "data", w: "claim" })!;
+
+      g.setWarrantEdge("warrant2", warrantEdge);
+      g.setRebuttal("rebuttal", warrantEdge);
+      g.setWarrantEdge("warrant3", g.warrantEdge("warrant2", warrantEdge)!);
+
+      const layout = computeLayout(g);
+      const nodes = [...layout.nodes.values()];
+      const warrant = layout.nodes.get("warrant")!;
+      const warrant2 = layout.nodes.get("warrant2")!;
+      const rebuttal = layout.nodes.get("rebuttal")!;
+
+      nodes.forEach((node0, index) => {
+        nodes.slice(index + 1).forEach((node1) => {
+          const overlapsX =
+            Math.abs(node0.x - node1.x) < (node0.width + node1.width) / 2;
+          const overlapsY =
+            Math.abs(node0.y - node1.y) < (node0.height + node1.height) / 2;
+
+          assert.isFalse(overlapsX && overlapsY);
+        });
+      });
+      layout.edges.forEach(({ points }) => {
+        points.slice(1, -1).forEach((point) => {
+          nodes.forEach((node) => assert.isFalse(isInsideNode(point, node)));
+        });
+      });
+      [...layout.warrants, ...layout.rebuttals].forEach(({ points }) => {
+        points.slice(1).forEach((point) => {
+          nodes.forEach((node) => assert.isFalse(isInsideNode(point, node)));
+        });
+      });
+      assert.isAbove(warrant2.y, warrant.y);
+      assert.isBelow(rebuttal.y, warrant.y);
+      assert.isBelow(warrant2.x, warrant.x);
+      assert.deepEqual(
+        layout.warrants.find(({ source }) => source === "warrant2")!.target,
+        warrantEdge
+      );
+
+      g.removeEdge("data", "claim");
+
+      assert.lengthOf(g.nodes(), 6);
+    });
+  });
+
+  describe("Layout Options", () => {
+    const buildGraph = () => {
+      const g = new Graph();
+
+      g.setGraph({ ranksep: 50 });
+      g.setDefaultEdgeLabel(() => ({}));
+
+      g.setNode("a", { width: 100, height: 40 });
+      g.setNode("b", { width: 100, height: 40 });
+      g.setEdge("a", "b");
+
+      return g;
+    };
+
+    it("should fall back to the graph label", () => {
+      const g = buildGraph();
+
+      layOutGraph(g, {});
+
+      assert.strictEqual(g.node("b").y - g.node("a").y, 40 + 50);
+    });
+
+    it("should take precedence over the graph label", () => {
+      const g = buildGraph();
+
+      layOutGraph(g, { ranksep: 10, rankdir: "LR" });
+
+      assert.strictEqual(g.node("b").x - g.node("a").x, 100 + 10);
+      assert.strictEqual(g.graph().ranksep, 50);
+    });
+
+    it("should reject invalid values", () => {
+      assert.throws(
+        () => layOutGraph(buildGraph(), { nodesep: -1 }),
+        InvalidOptionError,
+        /nodesep/
+      );
+      assert.throws(
+        () => layOutGraph(buildGraph(), { ranksep: NaN }),
+        /ranksep/
+      );
+      assert.throws(
+        () => layOutGraph(buildGraph(), { maxrankingloops: 1.5 }),
+        /maxrankingloops/
+      );
+      assert.throws(
+        () => layOutGraph(buildGraph(), { rankdir: "up" as any }),
+        /rankdir/
+      );
+      assert.throws(
+        () => layOutGraph(buildGraph(), { orientation: "upside-down" as any }),
+        /orientation/
+      );
+      assert.throws(
+        () => layOutGraph(buildGraph(), { ranker: "fastest" as any }),
+        /ranker/
+      );
+      assert.throws(
+        () => layOutGraph(buildGraph(), { maxLayerWidth: 0 }),
+        /maxLayerWidth/
+      );
+      assert.throws(
+        () => layOutGraph(buildGraph(), { layerBalancing: "even" as any }),
+        /layerBalancing/
+      );
+      assert.throws(
+        () =>
+          layOutGraph(buildGraph(), { crossingMinimisation: "mean" as any }),
+        /crossingMinimisation/
+      );
+    });
+
+    it("should reject invalid values on the graph label", () => {
+      const g = buildGraph();
+
+      g.setGraph({ edgesep: -20 });
+
+      assert.throws(() => layOutGraph(g), /edgesep/);
+    });
+  });
+
+  describe("Rank Direction", () => {
+    const buildGraph = (rankdir: string) => {
+      const g = new Graph();
+
+      g.setGraph({ rankdir });
+      g.setDefaultEdgeLabel(() => ({}));
+
+      g.setNode("a", { width: 200, height: 50 });
+      g.setNode("b", { width: 200, height: 50 });
+      g.setNode("c", { width: 200, height: 50 });
+      g.setEdge("a", "c");
+      g.setConjunctNode("b", { v: "a", w: "c" });
+
+      layOutGraph(g);
+
+      return g;
+    };
+
+    it("should place targets below sources by default", () => {
+      const g = buildGraph("tb");
+
+      assert.isBelow(g.node("a").y, g.node("c").y);
+      assert.strictEqual(g.node("a").y, g.node("b").y);
+      assert.isBelow(g.node("a").x, g.node("b").x);
+    });
+
+    it("should place targets above sources for BT", () => {
+      const g = buildGraph("bt");
+
+      assert.isAbove(g.node("a").y, g.node("c").y);
+      assert.strictEqual(g.node("a").y, g.node("b").y);
+    });
+
+    it("should place targets right of sources for LR", () => {
+      const g = buildGraph("lr");
+
+      assert.isBelow(g.node("a").x, g.node("c").x);
+      assert.strictEqual(g.node("a").x, g.node("b").x);
+      assert.isBelow(g.node("a").y, g.node("b").y);
+    });
+
+    it("should place targets left of sources for RL", () => {
+      const g = buildGraph("rl");
+
+      assert.isAbove(g.node("a").x, g.node("c").x);
+      assert.strictEqual(g.node("a").x, g.node("b").x);
+    });
+
+    it("should keep node sizes and separate conjunct subnodes", () => {
+      const g = buildGraph("lr");
+      const { a, b } = { a: g.node("a"), b: g.node("b") };
+
+      assert.strictEqual(a.width, 200);
+      assert.strictEqual(a.height, 50);
+      assert.isAtLeast(b.y - a.y, (a.height + b.height) / 2);
+    });
+
+    it("should transform edge points", () => {
+      const g = buildGraph("lr");
+      const conjunctNode = g.parent("a")!;
+      const points = g.edge(conjunctNode, "c").points;
+
+      assert.strictEqual(points[0].x, g.node(conjunctNode).x);
+      assert.strictEqual(points[2].x, g.node("c").x);
+      assert.strictEqual(points[2].y, g.node("c").y);
+    });
+  });
+
+  describe("Orientation", () => {
+    const buildGraph = () => {
+      const g = new Graph();
+
+      g.setDefaultEdgeLabel(() => ({}));
+
+      ["a", "b", "c", "d", "warrant", "rebuttal"].forEach((node) =>
+        g.setNode(node, { width: 100, height: 40 })
+      );
+      g.setEdge("a", "c");
+      g.setConjunctNode("b", { v: "a", w: "c" });
+      g.setEdge("c", "d");
+      g.setWarrantEdge("warrant", { v: "c", w: "d" });
+      g.setRebuttal("rebuttal", { v: "c", w: "d" });
+
+      return g;
+    };
+
+    it("should place conclusions above their premises", () => {
+      const g = buildGraph();
+
+      layOutGraph(g, { orientation: "conclusion-above" });
+
+      assert.isBelow(g.node("d").y, g.node("c").y);
+      assert.isBelow(g.node("c").y, g.node("a").y);
+      assert.strictEqual(g.node("a").y, g.node("b").y);
+      assert.strictEqual(g.node("a").height, 40);
+    });
+
+    it("should keep edges pointing at conclusions", () => {
+      const g = buildGraph();
+
+      layOutGraph(g, { orientation: "conclusion-above" });
+
+      const points = g.edge("c", "d").points;
+
+      assert.strictEqual(points[0].y, g.node("c").y);
+      assert.strictEqual(points[points.length - 1].y, g.node("d").y);
+    });
+
+    it("should place warrants and rebuttals on either side of their edge", () => {
+      const g = buildGraph();
+
+      layOutGraph(g, { orientation: "conclusion-above" });
+
+      const { x: cX, y: cY } = g.node("c");
+      const { x: dX, y: dY } = g.node("d");
+      const { x: warrantX, y: warrantY } = g.node("warrant");
+
+      assert.isAbove(warrantY, dY);
+      assert.isBelow(warrantY, cY);
+      assert.strictEqual(g.node("rebuttal").y, warrantY);
+      assert.isAbove(warrantX, Math.max(cX, dX));
+      assert.isBelow(g.node("rebuttal").x, Math.min(cX, dX));
+    });
+
+    it("should follow the rank direction", () => {
+      const g = buildGraph();
+
+      layOutGraph(g, { orientation: "conclusion-above", rankdir: "lr" });
+
+      assert.isBelow(g.node("d").x, g.node("c").x);
+      assert.isBelow(g.node("c").x, g.node("a").x);
+      assert.strictEqual(g.node("a").width, 100);
+    });
+
+    it("should count constrained ranks from the top", () => {
+      const g = buildGraph();
+
+      ["e", "f", "g"].forEach((node) =>
+        g.setNode(node, { width: 100, height: 40 })
+      );
+      g.pinRank("f", "min");
+      g.pinRank("e", 2);
+      g.setMinRankGap("g", "c", 1);
+
+      layOutGraph(g, { orientation: "conclusion-above" });
+
+      assert.strictEqual(g.node("f").y, g.node("d").y);
+      assert.strictEqual(g.node("e").y, g.node("a").y);
+      assert.isBelow(g.node("g").y, g.node("c").y);
+    });
+  });
+
+  describe("Edge Labels", () => {
+    const buildGraph = (labelpos: string, withNeighbors = false) => {
+      const g = new Graph();
+
+      g.setGraph({ ranksep: 50, nodesep: 20 });
+      g.setDefaultEdgeLabel(() => ({}));
+
+      g.setNode("a", { width: 100, height: 40 });
+      g.setNode("b", { width: 100, height: 40 });
+      g.setEdge("a", "b", { width: 60, height: 30, labelpos });
+
+      if (withNeighbors) {
+        g.setNode("c", { width: 100, height: 20 });
+        g.setNode("d", { width: 100, height: 40 });
+        g.setEdge("a", "c");
+        g.setEdge("c", "d");
+        g.setEdge("d", "b");
+      }
+
+      layOutGraph(g);
+
+      return g;
+    };
+
+    it("should reserve a layer for labels", () => {
+      const g = buildGraph("c");
+      const { y } = g.edge("a", "b");
+
+      assert.strictEqual(y - g.node("a").y, 20 + 50 + 15);
+      assert.strictEqual(g.node("b").y - y, 15 + 50 + 20);
+    });
+
+    it("should place labels on their edges or offset them", () => {
+      const center = buildGraph("c");
+      const left = buildGraph("l");
+      const right = buildGraph("r");
+
+      assert.strictEqual(center.edge("a", "b").x, center.node("a").x);
+      assert.strictEqual(left.node("a").x - left.edge("a", "b").x, 30 + 10);
+      assert.strictEqual(right.edge("a", "b").x - right.node("a").x, 30 + 10);
+    });
+
+    it("should not let labels overlap nodes", () => {
+      ["l", "c", "r"].forEach((labelpos) => {
+        const g = buildGraph(labelpos, true);
+        const label = g.edge("a", "b");
+
+        g.nodes().forEach((node) => {
+          const { x, y, width, height } = g.node(node);
+          const overlapsX = Math.abs(x - label.x) < (width + label.width) / 2;
+          const overlapsY = Math.abs(y - label.y) < (height + label.height) / 2;
+
+          assert.isFalse(overlapsX && overlapsY);
+        });
+      });
+    });
+
+    it("should keep labels wider than their nodes clear of other nodes", () => {
+      ["l", "c", "r"].forEach((labelpos) => {
+        const g = new Graph();
+
+        g.setGraph({ ranksep: 50, nodesep: 20 });
+        g.setDefaultNodeLabel(() => ({ width: 20, height: 40 }));
+        g.setDefaultEdgeLabel(() => ({}));
+        g.setEdge("a", "b", { width: 200, height: 30, labelpos });
+        g.setEdge("a", "c");
+        g.setEdge("c", "d");
+        g.setEdge("d", "b");
+
+        layOutGraph(g);
+
+        const label = g.edge("a", "b");
+
+        g.nodes().forEach((node) => {
+          const { x, y, width, height } = g.node(node);
+          const overlapsX = Math.abs(x - label.x) < (width + label.width) / 2;
+          const overlapsY = Math.abs(y - label.y) < (height + label.height) / 2;
+
+          assert.isFalse(overlapsX && overlapsY);
+        });
+      });
+    });
+  });
+
+  describe("Cycles", () => {
+    const buildGraph = () => {
+      const g = new Graph();
+
+      g.setGraph({ ranksep: 50, nodesep: 20 });
+      g.setDefaultNodeLabel(() => ({ width: 100, height: 40 }));
+      g.setDefaultEdgeLabel(() => ({}));
+
+      g.setEdge("a", "b");
+      g.setEdge("b", "c");
+      g.setEdge("c", "a");
+      g.setEdge("b", "b", { width: 30, height: 10 });
+
+      layOutGraph(g);
+
+      return g;
+    };
+
+    it("should mark reversed edges and loops", () => {
+      const g = buildGraph();
+
+      assert.isTrue(g.edge("c", "a").reversed);
+      assert.isTrue(g.edge("b", "b").isLoop);
+      ["a", "b"].forEach((v) => {
+        const { reversed, isLoop } = g.edge(v, g.successors(v)![0]);
+
+        assert.isUndefined(reversed);
+        assert.isUndefined(isLoop);
+      });
+    });
+
+    it("should draw reversed edges from their source", () => {
+      const g = buildGraph();
+      const { points } = g.edge("c", "a");
+
+      assert.deepInclude(points[0], { x: g.node("c").x, y: g.node("c").y });
+      assert.deepInclude(points[points.length - 1], {
+        x: g.node("a").x,
+        y: g.node("a").y,
+      });
+    });
+
+    it("should draw loops beside their node", () => {
+      const g = buildGraph();
+      const { x, y } = g.node("b");
+      const { points, ...label } = g.edge("b", "b");
+
+      assert.deepEqual(points, [
+        { x: x + 50, y: y - 10 },
+        { x: x + 60, y },
+        { x: x + 50, y: y + 10 },
+      ]);
+      assert.strictEqual(label.x, x + 60 + 10 + 15);
+      assert.strictEqual(label.y, y);
+    });
+
+    it("should keep loops and their labels clear of other nodes", () => {
+      const g = new Graph();
+
+      g.setGraph({});
+      g.setDefaultNodeLabel(() => ({ width: 300, height: 100 }));
+      g.setDefaultEdgeLabel(() => ({}));
+      g.setEdge("a", "d");
+      g.setEdge("c", "d");
+      g.setEdge("a", "a", { width: 120, height: 30 });
+      layOutGraph(g);
+
+      const label = g.edge("a", "a");
+      const labelRight = label.x + label.width / 2;
+
+      g.nodes().forEach((node) => {
+        const { x, y, width, height } = g.node(node);
+        const overlapsX = Math.abs(x - label.x) < (width + label.width) / 2;
+        const overlapsY = Math.abs(y - label.y) < (height + label.height) / 2;
+
+        assert.isFalse(overlapsX && overlapsY, node);
+      });
+      assert.isAtMost(
+        labelRight - Math.min(...g.nodes().map((node) => g.node(node).x - 150)),
+        g.graph().width
+      );
+    });
+
+    it("should keep loops clear of long edges", () => {
+      const g = new Graph();
+
+      g.setGraph({});
+      g.setDefaultNodeLabel(() => ({ width: 300, height: 100 }));
+      g.setDefaultEdgeLabel(() => ({}));
+      g.setEdge("u", "a");
+      g.setEdge("a", "w");
+      g.setEdge("u", "w");
+      g.setEdge("a", "a");
+      layOutGraph(g);
+
+      const { x, width } = g.node("a");
+      const loopRight = g.edge("a", "a").points[1].x;
+      const dummyX = g.edge("u", "w").points[1].x;
+
+      assert.isTrue(dummyX < x - width / 2 || dummyX > loopRight);
+    });
+
+    it("should include loops in the width of the graph", () => {
+      const g = new Graph();
+
+      g.setGraph({});
+      g.setNode("a", { width: 40, height: 20 });
+      g.setEdge("a", "a", {});
+      layOutGraph(g);
+
+      const { points } = g.edge("a", "a");
+
+      assert.strictEqual(points[1].x - (g.node("a").x - 20), g.graph().width);
+    });
+
+    it("should report reversed edges and loops in the layout result", () => {
+      const g = buildGraph();
+      const { edges } = computeLayout(g);
+      const getEdge = (v: string, w: string) =>
+        edges.find((edge) => edge.v === v && edge.w === w)!;
+
+      assert.isTrue(getEdge("c", "a").reversed);
+      assert.isTrue(getEdge("b", "b").isLoop);
+      assert.notProperty(getEdge("a", "b"), "reversed");
+    });
+  });
 });
@@ -3,6 +3,7 @@ import { assert } from "chai";
 
 import Graph from "../src/graph.js";
 import layerNodes from "../src/layer-nodes.js";
+import { RankConstraintError } from "../src/errors.js";
 import { RankTable, buildLayoutGraph } from "../src/utils.js";
 
 describe("Node Layer Assignment", () => {
@@ -38,6 +39,67 @@ describe("Node Layer Assignment", () => {
     assert.strictEqual(ranks.getRank("c"), 2);
   });
 
+  it("should separate layers by their tallest nodes", () => {
+    const graph = new Graph();
+
+    graph.setGraph({ ranksep: 50 });
+    graph.setDefaultEdgeLabel(() => ({}));
+
+    graph.setNode("a", { height: 100 });
+    graph.setNode("b", { height: 300 });
+    graph.setNode("c", { height: 20 });
+    graph.setEdge("a", "c");
+    graph.setEdge("b", "c");
+
+    const layoutGraph = buildLayoutGraph(graph);
+    layerNodes(layoutGraph);
+
+    assert.strictEqual(layoutGraph.node("a").y, 150);
+    assert.strictEqual(layoutGraph.node("b").y, 150);
+    assert.strictEqual(layoutGraph.node("c").y, 360);
+    assert.strictEqual(layoutGraph.graph().height, 370);
+  });
+
+  it("should shorten heavy edges", () => {
+    [
+      { inWeight: 10, outWeight: 1, expectedRank: 1 },
+      { inWeight: 1, outWeight: 10, expectedRank: 2 },
+    ].forEach(({ inWeight, outWeight, expectedRank }) => {
+      const graph = new Graph();
+
+      graph.setDefaultNodeLabel(() => ({}));
+      graph.setDefaultEdgeLabel(() => ({}));
+
+      graph.setPath(["a", "b", "c", "d"]);
+      graph.setEdge("a", "e", { weight: inWeight });
+      graph.setEdge("e", "d", { weight: outWeight });
+
+      const layoutGraph = buildLayoutGraph(graph);
+      const ranks = layerNodes(layoutGraph);
+
+      assert.strictEqual(ranks.getRank("d"), 3);
+      assert.strictEqual(ranks.getRank("e"), expectedRank);
+    });
+  });
+
+  it("should rank disconnected components", () => {
+    const graph = new Graph();
+
+    graph.setDefaultNodeLabel(() => ({}));
+    graph.setDefaultEdgeLabel(() => ({}));
+
+    graph.setEdge("a", "b");
+    graph.setEdge("c", "d", { minlen: 2 });
+
+    const layoutGraph = buildLayoutGraph(graph);
+    const ranks = layerNodes(layoutGraph);
+
+    assert.strictEqual(ranks.getRank("b")! - ranks.getRank("a")!, 1);
+    assert.strictEqual(ranks.getRank("d")! - ranks.getRank("c")!, 2);
+    assert.strictEqual(ranks.getMinRankIndex(), 0);
+    assert.sameMembers(layoutGraph.nodes(), ["a", "b", "c", "d"]);
+  });
+
   it("should handle conjunct nodes", () => {
     const graph = new Graph();
 
@@ -90,7 +152,7 @@ describe("Node Layer Assignment", () => {
     graph.setNode("d");
     graph.setEdge("a", "d");
     graph.setConjunctNode("b", { v: "a", w: "d" });
-    graph.setWarrantEdge("c", { v: "-> d", w: "d" });
+    graph.setWarrantEdge("c", { v: graph.parent("a")!, w: "d" });
 
     const layoutGraph = buildLayoutGraph(graph);
     const ranks = layerNodes(layoutGraph);
@@ -101,6 +163,282 @@ describe("Node Layer Assignment", () => {
     assert.strictEqual(ranks.getRank("d"), 1);
   });
 
+  it("should rank nodes by their longest path to a sink", () => {
+    const graph = new Graph();
+
+    graph.setGraph({ ranker: "longest-path" });
+    graph.setDefaultEdgeLabel(() => ({}));
+
+    graph.setEdge("a", "b");
+    graph.setEdge("b", "c");
+    graph.setEdge("d", "c");
+    graph.setEdge("f", "a", { minlen: 2 });
+
+    const layoutGraph = buildLayoutGraph(graph);
+    const ranks = layerNodes(layoutGraph);
+
+    assert.strictEqual(ranks.getRank("f"), 0);
+    assert.strictEqual(ranks.getRank("a"), 2);
+    assert.strictEqual(ranks.getRank("b"), 3);
+    assert.strictEqual(ranks.getRank("c"), 4);
+    assert.strictEqual(ranks.getRank("d"), 3);
+  });
+
+  it("should limit the width of layers with Coffman-Graham", () => {
+    const graph = new Graph();
+
+    graph.setGraph({ ranker: "coffman-graham", maxLayerWidth: 4 });
+    graph.setDefaultEdgeLabel(() => ({}));
+
+    for (let index = 0; index < 10; index++)
+      graph.setEdge(`premise${index}`, "claim");
+
+    const layoutGraph = buildLayoutGraph(graph);
+    const ranks = layerNodes(layoutGraph);
+    const rankSizes = [0, 1, 2, 3].map((rank) => ranks.getNodes(rank)!.size);
+
+    assert.deepEqual(rankSizes, [2, 4, 4, 1]);
+    assert.strictEqual(ranks.getRank("claim"), 3);
+    assert.strictEqual(ranks.getMaxRankIndex(), 3);
+  });
+
+  it("should respect minimum edge lengths with Coffman-Graham", () => {
+    const graph = new Graph();
+
+    graph.setGraph({ ranker: "coffman-graham", maxLayerWidth: 2 });
+    graph.setDefaultEdgeLabel(() => ({}));
+
+    graph.setEdge("a", "c", { minlen: 3 });
+    graph.setEdge("b", "c");
+    graph.setEdge("d", "c");
+
+    const layoutGraph = buildLayoutGraph(graph);
+    const ranks = layerNodes(layoutGraph);
+
+    graph.edges().forEach((edge) => {
+      const { minlen } = layoutGraph.edge(edge);
+      const length = ranks.getRank(edge.w)! - ranks.getRank(edge.v)!;
+
+      assert.isAtLeast(length, minlen);
+    });
+    [0, 1, 2, 3].forEach((rank) =>
+      assert.isAtMost(ranks.getNodes(rank)?.size || 0, 2)
+    );
+  });
+
+  it("should balance layers by the width of their nodes", () => {
+    [
+      { bWidth: 1000, cWidth: 10, expectedRank: 2 },
+      { bWidth: 10, cWidth: 1000, expectedRank: 1 },
+    ].forEach(({ bWidth, cWidth, expectedRank }) => {
+      const graph = new Graph();
+
+      graph.setDefaultEdgeLabel(() => ({}));
+
+      graph.setNode("b", { width: bWidth });
+      graph.setNode("c", { width: cWidth });
+      graph.setPath(["a", "b", "c", "d"]);
+      graph.setEdge("a", "e");
+      graph.setEdge("e", "d");
+
+      const layoutGraph = buildLayoutGraph(graph);
+      const ranks = layerNodes(layoutGraph);
+
+      assert.strictEqual(ranks.getRank("d"), 3);
+      assert.strictEqual(ranks.getRank("e"), expectedRank);
+    });
+  });
+
+  it("should balance layers by their number of nodes", () => {
+    const graph = new Graph();
+
+    graph.setGraph({ layerBalancing: "count" });
+    graph.setDefaultNodeLabel(() => ({}));
+    graph.setDefaultEdgeLabel(() => ({}));
+
+    graph.setEdge("a", "b", { minlen: 3 });
+    graph.setEdge("a", "c", { minlen: 3 });
+    ["d", "e", "f"].forEach((node) => graph.setNode(node));
+
+    const layoutGraph = buildLayoutGraph(graph);
+    const ranks = layerNodes(layoutGraph);
+
+    assert.strictEqual(ranks.getRank("b"), 3);
+    [0, 1, 2, 3].forEach((rank) => {
+      assert.isAtMost(ranks.getNodes(rank)!.size, 2);
+    });
+  });
+
+  it("should not balance layers if turned off", () => {
+    const graph = new Graph();
+
+    graph.setGraph({ layerBalancing: "none", ranker: "longest-path" });
+    graph.setDefaultNodeLabel(() => ({}));
+    graph.setDefaultEdgeLabel(() => ({}));
+
+    graph.setEdge("a", "b", { minlen: 3 });
+    ["c", "d"].forEach((node) => graph.setNode(node));
+
+    const layoutGraph = buildLayoutGraph(graph);
+    const ranks = layerNodes(layoutGraph);
+
+    assert.sameMembers([...ranks.getNodes(3)!], ["b", "c", "d"]);
+    assert.isUndefined(ranks.getNodes(1));
+  });
+
+  it("should place nodes on the same rank", () => {
+    const graph = new Graph();
+
+    graph.setDefaultEdgeLabel(() => ({}));
+
+    graph.setEdge("a", "b");
+    graph.setEdge("b", "c");
+    graph.setEdge("d", "c");
+    graph.setEdge("e", "f");
+    graph.setSameRank(["a", "d", "e"]);
+
+    const layoutGraph = buildLayoutGraph(graph);
+    const ranks = layerNodes(layoutGraph);
+
+    assert.strictEqual(ranks.getRank("a"), 0);
+    assert.strictEqual(ranks.getRank("d"), 0);
+    assert.strictEqual(ranks.getRank("e"), 0);
+    assert.strictEqual(ranks.getRank("c"), 2);
+    assert.sameMembers(layoutGraph.nodes(), graph.nodes());
+    assert.sameDeepMembers(layoutGraph.edges(), graph.edges());
+  });
+
+  it("should pin nodes to ranks", () => {
+    ["network-simplex", "longest-path", "coffman-graham"].forEach((ranker) => {
+      const graph = new Graph();
+
+      graph.setGraph({ ranker });
+      graph.setDefaultEdgeLabel(() => ({}));
+
+      graph.setEdge("a", "b");
+      graph.setEdge("b", "c");
+      graph.setEdge("d", "c");
+      graph.setEdge("e", "d");
+      graph.setNode("f");
+      graph.pinRank("a", "min");
+      graph.pinRank("e", 1);
+      graph.pinRank("f", "max");
+
+      const layoutGraph = buildLayoutGraph(graph);
+      const ranks = layerNodes(layoutGraph);
+
+      assert.strictEqual(ranks.getRank("a"), 0, ranker);
+      assert.strictEqual(ranks.getRank("e"), 1, ranker);
+      assert.strictEqual(ranks.getRank("d"), 2, ranker);
+      assert.strictEqual(ranks.getRank("c"), 3, ranker);
+      assert.strictEqual(ranks.getRank("f"), 3, ranker);
+      assert.sameMembers(layoutGraph.nodes(), graph.nodes());
+    });
+  });
+
+  it("should keep minimum rank gaps", () => {
+    const graph = new Graph();
+
+    graph.setDefaultEdgeLabel(() => ({}));
+
+    graph.setEdge("a", "b");
+    graph.setEdge("b", "c");
+    graph.setEdge("d", "c");
+    graph.setMinRankGap("a", "d", 3);
+
+    const layoutGraph = buildLayoutGraph(graph);
+    const ranks = layerNodes(layoutGraph);
+
+    assert.isAtLeast(ranks.getRank("d")! - ranks.getRank("a")!, 3);
+    assert.isAtLeast(ranks.getRank("c")! - ranks.getRank("d")!, 1);
+    assert.lengthOf(layoutGraph.edges(), 3);
+  });
+
+  it("should apply rank constraints to conjunct and warrant nodes", () => {
+    const graph = new Graph({ compound: true });
+
+    graph.setDefaultNodeLabel(() => ({}));
+    graph.setDefaultEdgeLabel(() => ({}));
+
+    graph.setEdge("a", "c");
+    graph.setConjunctNode("b", { v: "a", w: "c" });
+    graph.setEdge("d", "e");
+    graph.setWarrantEdge("warrant", { v: "d", w: "e" });
+    graph.setSameRank(["b", "e"]);
+    graph.pinRank("c", "max");
+
+    const layoutGraph = buildLayoutGraph(graph);
+    const ranks = layerNodes(layoutGraph);
+
+    assert.strictEqual(ranks.getRank("a"), 1);
+    assert.strictEqual(ranks.getRank("b"), 1);
+    assert.strictEqual(ranks.getRank("c"), 2);
+    assert.strictEqual(ranks.getRank("d"), 0);
+    assert.strictEqual(ranks.getRank("e"), 1);
+    assert.sameMembers(layoutGraph.nodes(), graph.nodes());
+  });
+
+  it("should reject unsatisfiable rank constraints", () => {
+    const createGraph = () => {
+      const graph = new Graph();
+
+      graph.setDefaultEdgeLabel(() => ({}));
+      graph.setEdge("a", "b");
+      graph.setEdge("b", "c");
+
+      return graph;
+    };
+    const sameRank = createGraph().setSameRank(["a", "b"]);
+    const conflictingPins = createGraph()
+      .pinRank("a", 0)
+      .pinRank("c", 1)
+      .setSameRank(["a", "c"]);
+    const pinnedTooHigh = createGraph().pinRank("c", 1);
+    const reversedGap = createGraph().setMinRankGap("c", "a", 0);
+    const minBelowMax = createGraph().pinRank("a", "max").pinRank("c", "min");
+
+    [
+      sameRank,
+      conflictingPins,
+      pinnedTooHigh,
+      reversedGap,
+      minBelowMax,
+    ].forEach((graph) => {
+      assert.throws(
+        () => layerNodes(buildLayoutGraph(graph)),
+        RankConstraintError
+      );
+    });
+
+    try {
+      layerNodes(buildLayoutGraph(reversedGap));
+    } catch (error) {
+      assert.sameMembers((error as RankConstraintError).nodes, ["a", "b", "c"]);
+    }
+  });
+
+  it("should report nodes that are all pinned away from the outer ranks", () => {
+    const graph = new Graph();
+
+    graph.setNode("a", {});
+    graph.setNode("b", {});
+    graph.pinRank("a", 1).pinRank("b", 1);
+
+    assert.throws(
+      () => layerNodes(buildLayoutGraph(graph)),
+      RankConstraintError,
+      "All nodes are pinned below the first rank or placed below such nodes"
+    );
+    assert.throws(
+      () =>
+        layerNodes(
+          buildLayoutGraph(graph, { orientation: "conclusion-above" })
+        ),
+      RankConstraintError,
+      "All nodes are pinned above the last rank or placed above such nodes"
+    );
+  });
+
   it("test", () => {
     const g = new Graph();
 
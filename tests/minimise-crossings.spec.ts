@@ -11,6 +11,8 @@ import { RankTable, buildLayoutGraph } from "../src/utils.js";
 import layerNodes from "../src/layer-nodes.js";
 
 describe("Minimise Crossings", () => {
+  const heuristics = ["barycenter", "median", "weighted-median"] as const;
+
   describe("Count Crossings", () => {
     it("should be a function", () => {
       assert.isFunction(countCrossings);
@@ -273,5 +275,149 @@ describe("Minimise Crossings", () => {
 
       assert.equal(numberOfCrossings, 0);
     });
+
+    it("should place attacks on the chosen side of supports", () => {
+      const graph = new Graph();
+
+      graph.setDefaultNodeLabel(() => ({}));
+      graph.setDefaultEdgeLabel(() => ({}));
+
+      graph.setNode("a");
+      graph.setNode("b");
+      graph.setNode("c");
+      graph.setNode("d");
+      graph.setEdge("a", "d");
+      graph.setEdge("b", "d");
+      graph.setEdge("c", "d");
+      graph.setPolarity({ v: "a", w: "d" }, "attack");
+
+      assert.equal(graph.polarity({ v: "a", w: "d" }), "attack");
+      assert.equal(graph.polarity({ v: "b", w: "d" }), "support");
+
+      (["right", "left"] as const).forEach((attackSide) => {
+        heuristics.forEach((crossingMinimisation) => {
+          const layoutGraph = buildLayoutGraph(graph, {
+            attackSide,
+            crossingMinimisation,
+          });
+          const ranks = layerNodes(layoutGraph);
+          const graphMatrix = minimiseCrossings(layoutGraph, ranks);
+          const layer = graphMatrix[ranks.getRank("a")!];
+          const expectedIndex = attackSide === "right" ? layer.length - 1 : 0;
+
+          assert.equal(layer.indexOf("a"), expectedIndex);
+        });
+      });
+    });
+
+    it("should leave fewer crossings with the median heuristics", () => {
+      const graph = new Graph();
+
+      graph.setDefaultNodeLabel(() => ({}));
+      graph.setDefaultEdgeLabel(() => ({}));
+
+      ["a", "b", "c", "d", "e", "f", "g", "h", "i", "j"].forEach((node) =>
+        graph.setNode(node)
+      );
+      graph.setEdge("a", "f");
+      graph.setEdge("a", "j");
+      graph.setEdge("c", "g");
+      graph.setEdge("c", "j");
+      graph.setEdge("d", "f");
+      graph.setEdge("e", "g");
+      graph.setEdge("e", "i");
+
+      const crossingCounts = heuristics.map((crossingMinimisation) => {
+        const layoutGraph = buildLayoutGraph(graph, { crossingMinimisation });
+        const ranks = layerNodes(layoutGraph);
+        const graphMatrix = minimiseCrossings(layoutGraph, ranks);
+
+        return countTotalCrossings(layoutGraph, graphMatrix);
+      });
+
+      assert.deepEqual(crossingCounts, [2, 0, 0]);
+    });
+
+    const buildConjunctGraph = (edges: [string, string][]) => {
+      const graph = new Graph({ compound: true });
+
+      graph.setDefaultNodeLabel(() => ({}));
+      graph.setDefaultEdgeLabel(() => ({}));
+
+      ["a", "b", "c", "d", "e", "f", "g", "h", "i", "j"].forEach((node) =>
+        graph.setNode(node)
+      );
+      edges.forEach(([v, w]) => graph.setEdge(v, w));
+      graph.setEdge("a", "g");
+      graph.setConjunctNode("b", { v: "a", w: "g" });
+
+      return graph;
+    };
+    const assertConjunctNodeKept = (
+      graph: Graph,
+      crossingMinimisation: (typeof heuristics)[number]
+    ) => {
+      const layoutGraph = buildLayoutGraph(graph, { crossingMinimisation });
+      const ranks = layerNodes(layoutGraph);
+      const graphMatrix = minimiseCrossings(layoutGraph, ranks);
+      const layer = graphMatrix[ranks.getRank("a")!];
+
+      assert.equal(
+        Math.abs(layer.indexOf("a") - layer.indexOf("b")),
+        1,
+        `${crossingMinimisation}: ${layer}`
+      );
+    };
+
+    it("should keep conjunct nodes together with every heuristic", () => {
+      const graph = buildConjunctGraph([
+        ["b", "j"],
+        ["c", "j"],
+        ["d", "j"],
+        ["e", "g"],
+        ["f", "i"],
+      ]);
+
+      heuristics.forEach((crossingMinimisation) => {
+        assertConjunctNodeKept(graph, crossingMinimisation);
+      });
+    });
+
+    it("should keep conjunct nodes together when sorting by each heuristic", () => {
+      const edges: { [heuristic: string]: [string, string][] } = {
+        barycenter: [
+          ["b", "h"],
+          ["b", "i"],
+          ["c", "i"],
+          ["e", "g"],
+          ["e", "h"],
+          ["f", "h"],
+        ],
+        median: [
+          ["a", "i"],
+          ["a", "j"],
+          ["b", "i"],
+          ["c", "i"],
+          ["d", "j"],
+          ["e", "j"],
+          ["f", "g"],
+        ],
+        "weighted-median": [
+          ["a", "j"],
+          ["c", "g"],
+          ["c", "i"],
+          ["c", "j"],
+          ["d", "g"],
+          ["d", "j"],
+          ["e", "g"],
+        ],
+      };
+
+      heuristics.forEach((crossingMinimisation) => {
+        const graph = buildConjunctGraph(edges[crossingMinimisation]);
+
+        assertConjunctNodeKept(graph, crossingMinimisation);
+      });
+    });
   });
 });
@@ -10,7 +10,14 @@ import removeCycles, {
   handleEdges,
   deleteLoop,
   reverseEdge,
+  getDepthFirstOrder,
+  getMinimumFASOrder,
+  getStronglyConnectedComponents,
+  MAX_EXACT_COMPONENT_SIZE,
+  isPinned,
 } from "../src/remove-cycles.js";
+import { LayoutPipeline } from "../src/lay-out-graph.js";
+import { InvalidOptionError } from "../src/errors.js";
 
 describe("Cycle Handling", () => {
   describe("Edge Reversal", () => {
@@ -313,4 +320,183 @@ describe("Cycle Handling", () => {
       assert.isTrue(graphlib.alg.isAcyclic(graph));
     });
   });
+
+  describe("Cycle Removal Strategies", () => {
+    const createGraph = (edges: [string, string][]) => {
+      const graph = new Graph();
+
+      edges.forEach(([v, w]) => graph.setEdge(v, w));
+      return graph;
+    };
+    const getReversedEdges = (graph: Graph) =>
+      removeCycles(graph).reversedEdges.map(({ v, w }) => `${v} -> ${w}`);
+
+    it("should reverse the back edges of a depth-first search", () => {
+      const graph = createGraph([
+        ["a", "b"],
+        ["b", "c"],
+        ["c", "a"],
+        ["c", "d"],
+        ["d", "b"],
+      ]);
+
+      graph.setGraph({ cycleRemoval: "dfs" });
+
+      assert.deepEqual(getDepthFirstOrder(graph), ["a", "b", "c", "d"]);
+      assert.sameMembers(getReversedEdges(graph), ["c -> a", "d -> b"]);
+      assert.isTrue(graphlib.alg.isAcyclic(graph));
+    });
+
+    it("should reverse a minimum feedback arc set", () => {
+      const edges: [string, string][] = [
+        ["b", "c"],
+        ["a", "d"],
+        ["d", "c"],
+        ["c", "a"],
+        ["a", "b"],
+        ["b", "d"],
+      ];
+      const greedyGraph = createGraph(edges);
+      const exactGraph = createGraph(edges);
+
+      exactGraph.setGraph({ cycleRemoval: "exact" });
+
+      assert.lengthOf(getReversedEdges(greedyGraph), 2);
+      assert.deepEqual(getReversedEdges(exactGraph), ["c -> a"]);
+      assert.isTrue(graphlib.alg.isAcyclic(exactGraph));
+    });
+
+    it("should count parallel edges and ignore loops", () => {
+      const graph = new Graph({ multigraph: true });
+
+      graph.setEdge("a", "b", {}, "first");
+      graph.setEdge("a", "b", {}, "second");
+      graph.setEdge("b", "a");
+      graph.setEdge("b", "b");
+      graph.setGraph({ cycleRemoval: "exact" });
+
+      assert.deepEqual(getMinimumFASOrder(graph), ["a", "b"]);
+
+      const { deletedLoops, reversedEdges } = removeCycles(graph);
+
+      assert.lengthOf(deletedLoops, 1);
+      assert.deepInclude(reversedEdges[0], { v: "b", w: "a" });
+    });
+
+    it("should order strongly connected components topologically", () => {
+      const graph = createGraph([
+        ["e", "c"],
+        ["c", "d"],
+        ["d", "c"],
+        ["a", "b"],
+        ["b", "a"],
+        ["b", "e"],
+      ]);
+      const order = getMinimumFASOrder(graph);
+
+      assert.isBelow(order.indexOf("a"), order.indexOf("e"));
+      assert.isBelow(order.indexOf("b"), order.indexOf("e"));
+      assert.isBelow(order.indexOf("e"), order.indexOf("c"));
+      assert.isBelow(order.indexOf("e"), order.indexOf("d"));
+    });
+
+    it("should fall back to the greedy heuristic for large components", () => {
+      const size = MAX_EXACT_COMPONENT_SIZE + 4;
+      const graph = new Graph();
+
+      graph.setGraph({ cycleRemoval: "exact" });
+      for (let i = 0; i < size; i++)
+        for (let j = 1; j < 4; j++) graph.setEdge(`${i}`, `${(i + j) % size}`);
+
+      assert.lengthOf(getMinimumFASOrder(graph), size);
+
+      removeCycles(graph);
+
+      assert.isTrue(graphlib.alg.isAcyclic(graph));
+    });
+
+    it("should be selectable as a layout option", () => {
+      const graph = createGraph([
+        ["a", "b"],
+        ["b", "c"],
+        ["c", "a"],
+        ["a", "d"],
+      ]);
+      const pipeline = new LayoutPipeline(graph, { cycleRemoval: "dfs" });
+
+      pipeline.removeCycles();
+
+      assert.deepInclude(pipeline.modifiedEdges!.reversedEdges[0], {
+        v: "c",
+        w: "a",
+      });
+      assert.throws(
+        () => new LayoutPipeline(graph, { cycleRemoval: "random" } as any),
+        InvalidOptionError,
+        /"cycleRemoval"/
+      );
+    });
+  });
+
+  describe("Pinned Edges", () => {
+    const createTriangle = () => {
+      const graph = new Graph();
+
+      graph.setEdge("a", "b");
+      graph.setEdge("b", "c");
+      graph.setEdge("c", "a");
+      return graph;
+    };
+
+    it("should not reverse pinned edges", () => {
+      [undefined, "dfs", "exact"].forEach((cycleRemoval) => {
+        const graph = createTriangle();
+
+        graph.setGraph({ cycleRemoval });
+        graph.setEdge("c", "a", { preserveDirection: true });
+
+        const { reversedEdges } = removeCycles(graph);
+
+        assert.lengthOf(reversedEdges, 1);
+        assert.notDeepInclude(reversedEdges[0], { v: "c", w: "a" });
+        assert.isTrue(graph.hasEdge("c", "a"));
+        assert.isTrue(graphlib.alg.isAcyclic(graph));
+      });
+    });
+
+    it("should not reverse a pinned edge from node1 to node0", () => {
+      const graph = new Graph();
+
+      graph.setEdge("a", "b", { preserveDirection: true });
+
+      const edge = graph.edges()[0];
+
+      assert.isTrue(isPinned(graph, edge));
+      assert.isUndefined(reverseEdge(graph, ["b"], ["a"], edge));
+      assert.isTrue(graph.hasEdge("a", "b"));
+    });
+
+    it("should not enter a node whose pinned edges lead back", () => {
+      const graph = new Graph();
+
+      graph.setEdge("a", "u");
+      graph.setEdge("u", "v", { preserveDirection: true });
+      graph.setEdge("v", "a", { preserveDirection: true });
+
+      assert.deepEqual(getDepthFirstOrder(graph), ["u", "v", "a"]);
+    });
+
+    it("should not merge nodes upstream of a cycle into its component", () => {
+      const graph = new Graph();
+
+      graph.setEdge("u", "c");
+      graph.setEdge("c", "x", { preserveDirection: true });
+      graph.setEdge("x", "c", { preserveDirection: true });
+
+      assert.deepEqual(getStronglyConnectedComponents(graph), [
+        ["u"],
+        ["c", "x"],
+      ]);
+    });
+  });
 });
@@ -87,4 +87,35 @@ describe("Straighten Edges", () => {
       )
     );
   });
+
+  it("should separate dummy nodes by edgesep", () => {
+    const graph = new Graph();
+
+    graph.setGraph({ nodesep: 100, edgesep: 20 });
+    graph.setDefaultEdgeLabel(() => ({}));
+
+    graph.setNode("a");
+    graph.setNode("b");
+    graph.setNode("c");
+    graph.setEdge("a", "b");
+    graph.setEdge("b", "c");
+
+    const layoutGraph = buildLayoutGraph(graph);
+    const graphMatrix: NodeId[][] = [["a"], ["b", "d0", "d1"], ["c"]];
+
+    ["d0", "d1"].forEach((dummyNode) => {
+      layoutGraph.setNode(dummyNode, { isDummyNode: true, width: 0 });
+      layoutGraph.setEdge("a", dummyNode, {});
+      layoutGraph.setEdge(dummyNode, "c", {});
+    });
+
+    straightenEdges(layoutGraph, graphMatrix);
+
+    const [bX, d0X, d1X] = graphMatrix[1].map(
+      (node) => layoutGraph.node(node).x
+    );
+
+    assert.strictEqual(d0X - bX, 150 + 20);
+    assert.strictEqual(d1X - d0X, 20);
+  });
 });
@@ -0,0 +1,210 @@
+import "mocha";
+import { assert } from "chai";
+
+import Graph from "../src/graph.js";
+import validateGraph from "../src/validate-graph.js";
+import {
+  InvalidGraphError,
+  LayoutError,
+  UnsupportedStructureError,
+} from "../src/errors.js";
+import layOutGraph from "../src/lay-out-graph.js";
+
+describe("Graph Validation", () => {
+  const getCodes = (graph: Graph) =>
+    validateGraph(graph).map(({ code }) => code);
+
+  it("should be a function", () => {
+    assert.isFunction(validateGraph);
+  });
+
+  it("should accept well-formed argument maps", () => {
+    const g = new Graph({ compound: true });
+
+    g.setDefaultEdgeLabel(() => ({}));
+    ["a", "b", "c", "warrant", "backing", "qualifier"].forEach((node) =>
+      g.setNode(node, { width: 100, height: 40 })
+    );
+    g.setEdge("a", "c");
+    g.setConjunctNode("b", { v: "a", w: "c" });
+    g.setWarrantEdge("warrant", { v: "a", w: "c" });
+    g.setBacking("backing", "warrant");
+    g.setQualifier("c", "qualifier");
+
+    assert.isEmpty(validateGraph(g));
+  });
+
+  it("should report undirected graphs", () => {
+    const g = new Graph({ directed: false });
+
+    g.setEdge("a", "b");
+
+    assert.deepEqual(getCodes(g), ["undirected-graph"]);
+  });
+
+  it("should report multigraphs", () => {
+    const g = new Graph({ multigraph: true });
+
+    g.setEdge("a", "b", {}, "first");
+    g.setEdge("a", "b", {}, "second");
+
+    assert.deepEqual(getCodes(g), ["multigraph"]);
+    assert.throws(
+      () => layOutGraph(g),
+      UnsupportedStructureError,
+      /must not be a multigraph/
+    );
+  });
+
+  it("should report invalid node sizes and edge labels", () => {
+    const g = new Graph();
+
+    g.setNode("a", { width: "wide", height: 40 });
+    g.setNode("b", { width: 100, height: -1 });
+    g.setEdge("a", "b", { minlen: 1.5, weight: NaN });
+
+    const diagnostics = validateGraph(g);
+
+    assert.sameMembers(getCodes(g), [
+      "invalid-node-size",
+      "invalid-node-size",
+      "invalid-edge-label",
+      "invalid-edge-label",
+    ]);
+    assert.strictEqual(diagnostics[0].node, "a");
+    assert.deepInclude(diagnostics[2].edge!, { v: "a", w: "b" });
+  });
+
+  it("should report malformed conjunct nodes and parents", () => {
+    const g = new Graph({ compound: true });
+
+    g.setNode("a");
+    g.setNode("b");
+    g.setNode("c");
+    g.setNode("conjunct", { isConjunctNode: true });
+    g.setNode("other", { isConjunctNode: true });
+    g.setNode("parent");
+    g.setParent("a", "conjunct");
+    g.setParent("b", "parent");
+    g.setEdge("conjunct", "c");
+    g.setEdge("conjunct", "b");
+
+    assert.sameMembers(getCodes(g), [
+      "multiple-conjunct-edges",
+      "empty-conjunct-node",
+      "missing-conjunct-edge",
+      "invalid-parent",
+    ]);
+  });
+
+  it("should report warrants whose target edge is gone", () => {
+    const g = new Graph();
+
+    g.setEdge("a", "b");
+    g.setWarrantEdge("warrant", { v: "a", w: "b" });
+    g.setNode("backing", { isBacking: true, backedNode: "missing" });
+    // Bypass the cascading removeEdge of Graph
+    Object.getPrototypeOf(Graph.prototype).removeEdge.call(g, "a", "b");
+
+    const diagnostics = validateGraph(g);
+
+    assert.sameMembers(getCodes(g), [
+      "missing-target-edge",
+      "missing-role-target",
+    ]);
+    assert.match(diagnostics[0].message, /"a" -> "b"/);
+  });
+
+  it("should report labels on warrant edges", () => {
+    const g = new Graph();
+
+    g.setEdge("a", "b");
+    g.setWarrantEdge("warrant", { v: "a", w: "b" }, { width: 50, height: 10 });
+    g.setRebuttal("rebuttal", { v: "a", w: "b" }, { width: 0, height: 0 });
+
+    const diagnostics = validateGraph(g);
+
+    assert.deepEqual(getCodes(g), ["labelled-warrant-edge"]);
+    assert.strictEqual(diagnostics[0].edge!.v, "warrant");
+    assert.throws(() => layOutGraph(g), UnsupportedStructureError);
+  });
+
+  it("should report cycles of pinned edges", () => {
+    const g = new Graph();
+
+    g.setEdge("a", "b", { preserveDirection: true });
+    g.setEdge("b", "c", { preserveDirection: true });
+    g.setEdge("c", "a", { preserveDirection: true });
+    g.setEdge("c", "d", { preserveDirection: true });
+    g.setEdge("d", "a");
+
+    const diagnostics = validateGraph(g);
+
+    assert.deepEqual(getCodes(g), [
+      "cyclic-pinned-edges",
+      "cyclic-pinned-edges",
+      "cyclic-pinned-edges",
+    ]);
+    assert.sameDeepMembers(
+      diagnostics.map(({ edge }) => edge),
+      [
+        { v: "a", w: "b" },
+        { v: "b", w: "c" },
+        { v: "c", w: "a" },
+      ]
+    );
+  });
+
+  it("should report invalid rank constraints", () => {
+    const g = new Graph();
+
+    g.setEdge("a", "b");
+    g.setSameRank(["a", "c"]);
+    g.pinRank("b", 1.5);
+    g.setMinRankGap("a", "d", -1);
+    g.removeNode("c");
+    g.removeNode("d");
+
+    const diagnostics = validateGraph(g);
+
+    assert.deepEqual(getCodes(g), [
+      "invalid-rank-constraint",
+      "invalid-rank-constraint",
+      "invalid-rank-constraint",
+      "invalid-rank-constraint",
+    ]);
+    assert.sameMembers(
+      diagnostics.map(({ node }) => node),
+      ["a", "a", "a", "b"]
+    );
+  });
+
+  it("should be called before layout", () => {
+    const g = new Graph();
+
+    g.setNode("a", { width: Infinity });
+
+    assert.throws(
+      () => layOutGraph(g),
+      InvalidGraphError,
+      /"a" has an invalid width/
+    );
+
+    try {
+      layOutGraph(g);
+    } catch (error) {
+      assert.instanceOf(error, LayoutError);
+      assert.lengthOf((error as InvalidGraphError).diagnostics, 1);
+      assert.deepEqual((error as InvalidGraphError).nodes, ["a"]);
+    }
+  });
+
+  it("should distinguish unsupported structures from malformed graphs", () => {
+    const g = new Graph({ directed: false });
+
+    g.setEdge("a", "b");
+
+    assert.throws(() => layOutGraph(g), UnsupportedStructureError);
+    assert.throws(() => layOutGraph(g), LayoutError, /must be directed/);
+  });
+});